@@ -1,7 +1,11 @@
-import { BatchGetSecretValueCommand, CreateSecretCommand, DeleteSecretCommand, DescribeSecretCommand, FilterNameStringType, GetSecretValueCommand, ListSecretsCommand, ListSecretVersionIdsCommand, SecretsManagerClient, TagResourceCommand, UpdateSecretCommand } from '@aws-sdk/client-secrets-manager';
+import { BatchGetSecretValueCommand, CancelRotateSecretCommand, CreateSecretCommand, DeleteResourcePolicyCommand, DeleteSecretCommand, DescribeSecretCommand, FilterNameStringType, GetRandomPasswordCommand, GetResourcePolicyCommand, GetSecretValueCommand, ListSecretsCommand, ListSecretVersionIdsCommand, PutResourcePolicyCommand, PutSecretValueCommand, RemoveRegionsFromReplicationCommand, ReplicateSecretToRegionsCommand, RestoreSecretCommand, RotateSecretCommand, SecretsManagerClient, StopReplicationToReplicaCommand, TagResourceCommand, UntagResourceCommand, UpdateSecretCommand, UpdateSecretVersionStageCommand, ValidateResourcePolicyCommand } from '@aws-sdk/client-secrets-manager';
 import { mockClient } from 'aws-sdk-client-mock';
+import { inspect } from 'util';
 import { AWSSecretsManager } from '../src/aws-secret-manager';
-import { SecretsManagerError } from '../src/error';
+import { InvalidSecretParameterError, SecretAccessDeniedError, SecretAlreadyExistsError, SecretConflictError, SecretMarkedForDeletionError, SecretNotFoundError, SecretOperationAbortedError, SecretsManagerError, SecretThrottledError, SecretValidationError } from '../src/error';
+import { SecretRedactor, SecretValue } from '../src/redaction';
+import { ResourcePolicyBuilder } from '../src/resource-policy';
+import { OperationEndEvent } from '../src/types';
 
 const secretsManagerMock = mockClient(SecretsManagerClient);
 
@@ -24,6 +28,15 @@ describe('AWSSecretsManager', () => {
       expect(result).toEqual(mockSecret);
     });
 
+    it('should name the secret when it has no value', async () => {
+      secretsManagerMock.on(GetSecretValueCommand).resolves({});
+
+      const error = await secretsManager.getSecret('test-secret').catch(e => e);
+
+      expect(error).toBeInstanceOf(SecretsManagerError);
+      expect(error).toMatchObject({ message: 'Secret has no value', operation: 'getSecret', secretId: 'test-secret' });
+    });
+
     it('should retrieve a string secret without parsing', async () => {
       const mockSecret = 'simple-string-secret';
       secretsManagerMock.on(GetSecretValueCommand).resolves({
@@ -36,6 +49,23 @@ describe('AWSSecretsManager', () => {
       expect(result).toBe(mockSecret);
     });
 
+    it('should return a binary secret as a buffer', async () => {
+      secretsManagerMock.on(GetSecretValueCommand).resolves({
+        SecretBinary: new Uint8Array([0, 1, 2]),
+      });
+
+      const result = await secretsManager.getSecret<Buffer>('binary-secret');
+      expect(Buffer.isBuffer(result)).toBe(true);
+      expect(result).toEqual(Buffer.from([0, 1, 2]));
+    });
+
+    it('should report the payload type', async () => {
+      secretsManagerMock.on(GetSecretValueCommand).resolvesOnce({ SecretString: 'text' }).resolvesOnce({ SecretBinary: new Uint8Array([9]) });
+
+      expect(await secretsManager.getSecretPayload('string-secret')).toEqual({ type: 'string', value: 'text' });
+      expect(await secretsManager.getSecretPayload('binary-secret')).toEqual({ type: 'binary', value: Buffer.from([9]) });
+    });
+
     it('should handle a deleted secret error', async () => {
       secretsManagerMock.on(GetSecretValueCommand).rejects({
         name: 'InvalidRequestException',
@@ -55,6 +85,124 @@ describe('AWSSecretsManager', () => {
     });
   });
 
+  describe('getSecret caching', () => {
+    let cachedManager: AWSSecretsManager;
+    let now: number;
+
+    beforeEach(() => {
+      now = 1_000_000;
+      jest.spyOn(Date, 'now').mockImplementation(() => now);
+      cachedManager = new AWSSecretsManager({
+        cache: { ttl: 1000, maxEntries: 2, staleWhileRevalidate: 1000 },
+      });
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('should serve repeated reads from the cache', async () => {
+      secretsManagerMock.on(GetSecretValueCommand).resolves({ SecretString: '{"a":1}' });
+
+      await cachedManager.getSecret('test-secret');
+      const result = await cachedManager.getSecret('test-secret');
+
+      expect(result).toEqual({ a: 1 });
+      expect(secretsManagerMock.commandCalls(GetSecretValueCommand)).toHaveLength(1);
+      expect(cachedManager.getCacheStats()).toEqual({ hits: 1, misses: 1, size: 1 });
+    });
+
+    it('should key entries by version', async () => {
+      secretsManagerMock.on(GetSecretValueCommand).resolves({ SecretString: 'value' });
+
+      await cachedManager.getSecret('test-secret', { parse: false });
+      await cachedManager.getSecret('test-secret', { parse: false, version: 'v1' });
+
+      expect(secretsManagerMock.commandCalls(GetSecretValueCommand)).toHaveLength(2);
+    });
+
+    it('should bypass the cache when requested', async () => {
+      secretsManagerMock.on(GetSecretValueCommand).resolvesOnce({ SecretString: 'old' }).resolvesOnce({ SecretString: 'new' });
+
+      await cachedManager.getSecret('test-secret', { parse: false });
+      const result = await cachedManager.getSecret('test-secret', { parse: false, bypassCache: true });
+
+      expect(result).toBe('new');
+      expect(await cachedManager.getSecret('test-secret', { parse: false })).toBe('new');
+    });
+
+    it('should serve stale values while revalidating in the background', async () => {
+      secretsManagerMock.on(GetSecretValueCommand).resolvesOnce({ SecretString: 'old' }).resolvesOnce({ SecretString: 'new' });
+
+      await cachedManager.getSecret('test-secret', { parse: false });
+      now += 1500;
+
+      expect(await cachedManager.getSecret('test-secret', { parse: false })).toBe('old');
+      await new Promise(resolve => setImmediate(resolve));
+      expect(await cachedManager.getSecret('test-secret', { parse: false })).toBe('new');
+      expect(secretsManagerMock.commandCalls(GetSecretValueCommand)).toHaveLength(2);
+    });
+
+    it('should refetch once the revalidation window has passed', async () => {
+      secretsManagerMock.on(GetSecretValueCommand).resolvesOnce({ SecretString: 'old' }).resolvesOnce({ SecretString: 'new' });
+
+      await cachedManager.getSecret('test-secret', { parse: false });
+      now += 2500;
+
+      expect(await cachedManager.getSecret('test-secret', { parse: false })).toBe('new');
+    });
+
+    it('should evict the least recently used entry', async () => {
+      secretsManagerMock.on(GetSecretValueCommand).resolves({ SecretString: 'value' });
+
+      await cachedManager.getSecret('secret1');
+      await cachedManager.getSecret('secret2');
+      await cachedManager.getSecret('secret1');
+      await cachedManager.getSecret('secret3');
+      await cachedManager.getSecret('secret2');
+
+      expect(secretsManagerMock.commandCalls(GetSecretValueCommand)).toHaveLength(4);
+    });
+
+    it('should invalidate entries on write', async () => {
+      secretsManagerMock.on(GetSecretValueCommand).resolvesOnce({ SecretString: 'old' }).resolvesOnce({ SecretString: 'new' });
+      secretsManagerMock.on(UpdateSecretCommand).resolves({});
+
+      await cachedManager.getSecret('test-secret', { parse: false, version: 'v1' });
+      await cachedManager.updateSecret('test-secret', 'new');
+
+      expect(cachedManager.getCacheStats().size).toBe(0);
+      expect(await cachedManager.getSecret('test-secret', { parse: false, version: 'v1' })).toBe('new');
+    });
+
+    it('should not cache a value read before a concurrent write finished', async () => {
+      let respond: (value: { SecretString: string }) => void = () => undefined;
+      secretsManagerMock
+        .on(GetSecretValueCommand)
+        .callsFakeOnce(() => new Promise(resolve => (respond = resolve)))
+        .resolves({ SecretString: 'new' });
+      secretsManagerMock.on(UpdateSecretCommand).resolves({});
+
+      const before = cachedManager.getSecret('test-secret', { parse: false });
+      await cachedManager.updateSecret('test-secret', 'new');
+      respond({ SecretString: 'old' });
+
+      expect(await before).toBe('old');
+      expect(await cachedManager.getSecret('test-secret', { parse: false })).toBe('new');
+    });
+
+    it('should invalidate entries cached under the ARN when writing by name', async () => {
+      const arn = 'arn:aws:secretsmanager:us-east-1:123456789012:secret:test-secret-AbCdEf';
+      secretsManagerMock.on(GetSecretValueCommand).resolvesOnce({ SecretString: 'old' }).resolvesOnce({ SecretString: 'new' });
+      secretsManagerMock.on(UpdateSecretCommand).resolves({ ARN: arn, Name: 'test-secret' });
+
+      await cachedManager.getSecret(arn, { parse: false });
+      await cachedManager.updateSecret('test-secret', 'new');
+
+      expect(await cachedManager.getSecret(arn, { parse: false })).toBe('new');
+    });
+  });
+
   describe('createSecret', () => {
     it('should create a new secret with a string value', async () => {
       const secretName = 'new-string-secret';
@@ -98,11 +246,105 @@ describe('AWSSecretsManager', () => {
       });
     });
 
+    it('should create a new secret with a binary value', async () => {
+      const secretValue = Buffer.from('keystore-bytes');
+      secretsManagerMock.on(CreateSecretCommand).resolves({ ARN: 'arn' });
+
+      await secretsManager.createSecret('new-binary-secret', secretValue);
+
+      const lastCall = secretsManagerMock.calls()[0];
+      expect(lastCall.args[0].input).toEqual({
+        Name: 'new-binary-secret',
+        SecretBinary: secretValue,
+        Description: undefined,
+        Tags: undefined,
+      });
+    });
+
     it('should handle creation errors', async () => {
       secretsManagerMock.on(CreateSecretCommand).rejects(new Error('Creation failed'));
 
       await expect(secretsManager.createSecret('test-secret', 'test-value')).rejects.toThrow('Failed to create secret');
     });
+
+    it('should pass the KMS key, idempotency token and replica overwrite flag', async () => {
+      secretsManagerMock.on(CreateSecretCommand).resolves({ ARN: 'arn' });
+
+      await secretsManager.createSecret('kms-secret', 'value', {
+        kmsKeyId: 'alias/app-secrets',
+        clientRequestToken: 'deploy-42',
+        forceOverwriteReplicaSecret: true,
+      });
+
+      expect(secretsManagerMock.commandCalls(CreateSecretCommand)[0].args[0].input).toEqual({
+        Name: 'kms-secret',
+        SecretString: 'value',
+        KmsKeyId: 'alias/app-secrets',
+        ClientRequestToken: 'deploy-42',
+        ForceOverwriteReplicaSecret: true,
+      });
+    });
+  });
+
+  describe('generatePassword', () => {
+    it('should generate a password with GetRandomPassword', async () => {
+      secretsManagerMock.on(GetRandomPasswordCommand).resolves({ RandomPassword: 'aws-generated' });
+
+      expect(await secretsManager.generatePassword({ length: 40, excludePunctuation: true, excludeCharacters: 'lI1' })).toBe('aws-generated');
+      expect(secretsManagerMock.commandCalls(GetRandomPasswordCommand)[0].args[0].input).toEqual({ PasswordLength: 40, ExcludePunctuation: true, ExcludeCharacters: 'lI1' });
+    });
+
+    it('should fall back to local generation when the API call fails', async () => {
+      secretsManagerMock.on(GetRandomPasswordCommand).rejects({ name: 'AccessDeniedException', message: 'Not authorized' });
+
+      const password = await secretsManager.generatePassword({ length: 20, excludePunctuation: true });
+
+      expect(password).toMatch(/^[A-Za-z0-9]{20}$/);
+      await expect(secretsManager.generatePassword({ source: 'aws' })).rejects.toBeInstanceOf(SecretAccessDeniedError);
+    });
+
+    it('should not fall back when AWS rejects the options', async () => {
+      secretsManagerMock.on(GetRandomPasswordCommand).rejects({ name: 'InvalidParameterException', message: 'PasswordLength is out of range' });
+
+      await expect(secretsManager.generatePassword({ length: 5000 })).rejects.toBeInstanceOf(InvalidSecretParameterError);
+    });
+
+    it('should generate locally without calling AWS', async () => {
+      const password = await secretsManager.generatePassword({ source: 'local', length: 12, excludeUppercase: true, excludePunctuation: true });
+
+      expect(password).toMatch(/^[a-z0-9]{12}$/);
+      expect(secretsManagerMock.calls()).toHaveLength(0);
+    });
+  });
+
+  describe('createSecret with a generated value', () => {
+    beforeEach(() => {
+      secretsManagerMock.on(GetRandomPasswordCommand).resolves({ RandomPassword: 'generated-password' });
+      secretsManagerMock.on(CreateSecretCommand).resolves({ ARN: 'arn:new-secret' });
+    });
+
+    it('should store a generated password as the whole value', async () => {
+      expect(await secretsManager.createSecret('api-key', undefined, { generate: { length: 48 } })).toBe('arn:new-secret');
+
+      expect(secretsManagerMock.commandCalls(GetRandomPasswordCommand)[0].args[0].input).toEqual({ PasswordLength: 48 });
+      expect(secretsManagerMock.commandCalls(CreateSecretCommand)[0].args[0].input).toEqual(expect.objectContaining({ Name: 'api-key', SecretString: 'generated-password' }));
+    });
+
+    it('should fill one field of a JSON template', async () => {
+      await secretsManager.createSecret('prod/db', { username: 'app', host: 'db.internal' }, { generate: { field: 'password' } });
+
+      expect(JSON.parse(secretsManagerMock.commandCalls(CreateSecretCommand)[0].args[0].input.SecretString as string)).toEqual({
+        username: 'app',
+        host: 'db.internal',
+        password: 'generated-password',
+      });
+    });
+
+    it('should reject a value without a field, or a template that is not an object', async () => {
+      await expect(secretsManager.createSecret('api-key', 'explicit', { generate: {} })).rejects.toThrow('Pass either a secret value or generate options without a field, not both.');
+      await expect(secretsManager.createSecret('api-key', 'text', { generate: { field: 'password' } })).rejects.toThrow(InvalidSecretParameterError);
+      expect(secretsManagerMock.commandCalls(CreateSecretCommand)).toHaveLength(0);
+    });
   });
 
   describe('updateSecret', () => {
@@ -149,11 +391,123 @@ describe('AWSSecretsManager', () => {
       });
     });
 
+    it('should update an existing secret with a binary value', async () => {
+      const newSecretValue = new Uint8Array([4, 5, 6]);
+      secretsManagerMock.on(UpdateSecretCommand).resolves({ ARN: 'arn' });
+
+      await secretsManager.updateSecret('existing-binary-secret', newSecretValue);
+
+      const lastCall = secretsManagerMock.calls()[0];
+      expect(lastCall.args[0].input).toEqual({
+        SecretId: 'existing-binary-secret',
+        SecretBinary: newSecretValue,
+        Description: undefined,
+      });
+    });
+
     it('should handle update errors', async () => {
       secretsManagerMock.on(UpdateSecretCommand).rejects(new Error('Update failed'));
 
       await expect(secretsManager.updateSecret('test-secret', 'new-value')).rejects.toThrow('Failed to update secret');
     });
+
+    it('should pass the KMS key and idempotency token', async () => {
+      secretsManagerMock.on(UpdateSecretCommand).resolves({ ARN: 'arn' });
+
+      await secretsManager.updateSecret('test-secret', 'new-value', { kmsKeyId: 'alias/app-secrets', clientRequestToken: 'deploy-42' });
+
+      expect(secretsManagerMock.commandCalls(UpdateSecretCommand)[0].args[0].input).toEqual({
+        SecretId: 'test-secret',
+        SecretString: 'new-value',
+        KmsKeyId: 'alias/app-secrets',
+        ClientRequestToken: 'deploy-42',
+      });
+    });
+  });
+
+  describe('updateSecretMetadata', () => {
+    it('should update the description and KMS key without a value', async () => {
+      secretsManagerMock.on(UpdateSecretCommand).resolves({ ARN: 'arn' });
+
+      expect(await secretsManager.updateSecretMetadata('test-secret', { description: 'Rotated monthly', kmsKeyId: 'alias/new-key' })).toBe('arn');
+
+      const input = secretsManagerMock.commandCalls(UpdateSecretCommand)[0].args[0].input;
+      expect(input).toEqual({ SecretId: 'test-secret', Description: 'Rotated monthly', KmsKeyId: 'alias/new-key' });
+      expect(input).not.toHaveProperty('SecretString');
+      expect(input).not.toHaveProperty('SecretBinary');
+    });
+
+    it('should reject an empty update', async () => {
+      await expect(secretsManager.updateSecretMetadata('test-secret', {})).rejects.toBeInstanceOf(InvalidSecretParameterError);
+      expect(secretsManagerMock.calls()).toHaveLength(0);
+    });
+  });
+
+  describe('patchSecret', () => {
+    beforeEach(() => {
+      secretsManagerMock.on(PutSecretValueCommand).resolves({ VersionId: 'v2' });
+      secretsManagerMock.on(UpdateSecretVersionStageCommand).resolves({});
+    });
+
+    it('should write the merged value and move AWSCURRENT from the version that was read', async () => {
+      secretsManagerMock.on(GetSecretValueCommand).resolves({ VersionId: 'v1', SecretString: JSON.stringify({ username: 'app', password: 'old', legacy: true }) });
+
+      const result = await secretsManager.patchSecret<{ username: string; password: string; legacy?: boolean }>('db', { password: 'new', legacy: null });
+
+      expect(result).toEqual({ value: { username: 'app', password: 'new' }, versionId: 'v2', previousVersionId: 'v1', attempts: 1 });
+      expect(secretsManagerMock.commandCalls(PutSecretValueCommand)[0].args[0].input).toMatchObject({
+        SecretString: JSON.stringify({ username: 'app', password: 'new' }),
+        VersionStages: ['PATCH_PENDING'],
+      });
+      const stageMoves = secretsManagerMock.commandCalls(UpdateSecretVersionStageCommand).map(call => call.args[0].input);
+      expect(stageMoves).toEqual([
+        { SecretId: 'db', VersionStage: 'AWSCURRENT', MoveToVersionId: 'v2', RemoveFromVersionId: 'v1' },
+        { SecretId: 'db', VersionStage: 'PATCH_PENDING', RemoveFromVersionId: 'v2' },
+      ]);
+    });
+
+    it('should re-apply JSON Patch operations when another writer got there first', async () => {
+      secretsManagerMock
+        .on(GetSecretValueCommand)
+        .resolvesOnce({ VersionId: 'v1', SecretString: JSON.stringify({ hosts: ['a'] }) })
+        .resolves({ VersionId: 'v3', SecretString: JSON.stringify({ hosts: ['a', 'b'] }) });
+      secretsManagerMock.on(PutSecretValueCommand).resolvesOnce({ VersionId: 'v2' }).resolves({ VersionId: 'v4' });
+      secretsManagerMock
+        .on(UpdateSecretVersionStageCommand, { VersionStage: 'AWSCURRENT' })
+        .rejectsOnce({ name: 'InvalidParameterException', message: 'AWSCURRENT is not attached to v1' })
+        .resolves({});
+      secretsManagerMock.on(DescribeSecretCommand).resolves({ VersionIdsToStages: { v1: ['AWSPREVIOUS'], v3: ['AWSCURRENT'] } });
+
+      const result = await secretsManager.patchSecret('db', [{ op: 'add', path: '/hosts/-', value: 'c' }]);
+
+      expect(result).toEqual({ value: { hosts: ['a', 'b', 'c'] }, versionId: 'v4', previousVersionId: 'v3', attempts: 2 });
+    });
+
+    it('should give up with a SecretConflictError after maxAttempts', async () => {
+      secretsManagerMock.on(GetSecretValueCommand).resolves({ VersionId: 'v1', SecretString: '{}' });
+      secretsManagerMock.on(UpdateSecretVersionStageCommand).rejects({ name: 'InvalidParameterException', message: 'conflict' });
+      secretsManagerMock.on(DescribeSecretCommand).resolves({ VersionIdsToStages: { v9: ['AWSCURRENT'] } });
+
+      await expect(secretsManager.patchSecret('db', { a: 1 }, { maxAttempts: 2 })).rejects.toBeInstanceOf(SecretConflictError);
+      expect(secretsManagerMock.commandCalls(PutSecretValueCommand)).toHaveLength(2);
+    });
+
+    it('should refuse to patch when the expected version is no longer current', async () => {
+      secretsManagerMock.on(GetSecretValueCommand).resolves({ VersionId: 'v5', SecretString: '{}' });
+
+      await expect(secretsManager.patchSecret('db', { a: 1 }, { expectedVersionId: 'v1' })).rejects.toThrow(
+        'Secret "db" was modified: AWSCURRENT is no longer version v1.'
+      );
+      expect(secretsManagerMock.commandCalls(PutSecretValueCommand)).toHaveLength(0);
+    });
+
+    it('should reject secrets that are not JSON objects', async () => {
+      secretsManagerMock.on(GetSecretValueCommand).resolves({ VersionId: 'v1', SecretString: 'plain-text' });
+
+      await expect(secretsManager.patchSecret('db', { a: 1 })).rejects.toBeInstanceOf(SecretValidationError);
+      secretsManagerMock.on(GetSecretValueCommand).resolves({ VersionId: 'v1', SecretString: '[1]' });
+      await expect(secretsManager.patchSecret('db', { a: 1 })).rejects.toThrow('Secret "db" is not a JSON object and cannot be patched.');
+    });
   });
 
   describe('deleteSecret', () => {
@@ -256,12 +610,18 @@ describe('AWSSecretsManager', () => {
       expect(result.secrets).toEqual(mockSecrets);
     });
 
-    it('should throw an error for binary secrets', async () => {
+    it('should return binary secrets as buffers', async () => {
       secretsManagerMock.on(BatchGetSecretValueCommand).resolves({
-        SecretValues: [{ Name: 'secret1', SecretBinary: Buffer.from('binary-secret') }],
+        SecretValues: [
+          { Name: 'secret1', SecretBinary: new Uint8Array([1, 2, 3]) },
+          { Name: 'secret2', SecretString: '{"a":1}' },
+        ],
       });
 
-      await expect(secretsManager.batchGetSecrets({ secretIds: ['secret1'] })).rejects.toThrow('Binary secrets are not supported');
+      const result = await secretsManager.batchGetSecrets({ secretIds: ['secret1', 'secret2'], parse: true });
+      expect(Buffer.isBuffer(result.secrets.secret1)).toBe(true);
+      expect(result.secrets.secret1).toEqual(Buffer.from([1, 2, 3]));
+      expect(result.secrets.secret2).toEqual({ a: 1 });
     });
 
     it('should handle when no secrets are found', async () => {
@@ -430,6 +790,37 @@ describe('AWSSecretsManager', () => {
       expect(result.nextToken).toBeUndefined();
     });
 
+    it('should return metadata when requested', async () => {
+      const createdDate = new Date('2024-01-01');
+      secretsManagerMock.on(ListSecretsCommand).resolves({
+        SecretList: [
+          {
+            ARN: 'arn:secret1',
+            Name: 'secret1',
+            KmsKeyId: 'kms-key',
+            CreatedDate: createdDate,
+            Tags: [{ Key: 'env', Value: 'prod' }],
+            SecretVersionsToStages: { v1: ['AWSCURRENT'] },
+          },
+        ],
+      });
+
+      const result = await secretsManager.listSecrets({ includeMetadata: true });
+
+      expect(result.secretNames).toEqual(['secret1']);
+      expect(result.secrets).toEqual([
+        expect.objectContaining({
+          arn: 'arn:secret1',
+          name: 'secret1',
+          kmsKeyId: 'kms-key',
+          rotationEnabled: false,
+          createdDate,
+          tags: { env: 'prod' },
+          versionIdsToStages: { v1: ['AWSCURRENT'] },
+        }),
+      ]);
+    });
+
     it('should handle list errors', async () => {
       secretsManagerMock.on(ListSecretsCommand).rejects(new Error('List operation failed'));
 
@@ -468,6 +859,20 @@ describe('AWSSecretsManager', () => {
     });
   });
 
+  describe('untagSecret', () => {
+    it('should remove tags by key', async () => {
+      secretsManagerMock.on(UntagResourceCommand).resolves({});
+
+      const result = await secretsManager.untagSecret('test-secret', ['environment', 'team']);
+
+      expect(result).toEqual({ success: true, message: 'Successfully removed 2 tags from secret "test-secret"' });
+      expect(secretsManagerMock.commandCalls(UntagResourceCommand)[0].args[0].input).toEqual({
+        SecretId: 'test-secret',
+        TagKeys: ['environment', 'team'],
+      });
+    });
+  });
+
   describe('getTags', () => {
     it('should return tags for a secret', async () => {
       secretsManagerMock.on(DescribeSecretCommand).resolves({
@@ -493,6 +898,18 @@ describe('AWSSecretsManager', () => {
       expect(tags).toEqual({});
     });
 
+    it('should keep tags with empty values', async () => {
+      secretsManagerMock.on(DescribeSecretCommand).resolves({
+        Tags: [
+          { Key: 'environment', Value: 'production' },
+          { Key: 'pci', Value: '' },
+        ],
+      });
+
+      const tags = await secretsManager.getTags('test-secret');
+      expect(tags).toEqual({ environment: 'production', pci: '' });
+    });
+
     it('should handle non-existent secret', async () => {
       secretsManagerMock.on(DescribeSecretCommand).rejects({
         name: 'ResourceNotFoundException',
@@ -503,6 +920,118 @@ describe('AWSSecretsManager', () => {
     });
   });
 
+  describe('setTags', () => {
+    it('should apply changed tags and remove unlisted ones', async () => {
+      secretsManagerMock.on(DescribeSecretCommand).resolves({
+        Tags: [
+          { Key: 'environment', Value: 'staging' },
+          { Key: 'team', Value: 'backend' },
+          { Key: 'legacy', Value: '' },
+        ],
+      });
+      secretsManagerMock.on(TagResourceCommand).resolves({});
+      secretsManagerMock.on(UntagResourceCommand).resolves({});
+
+      const result = await secretsManager.setTags('test-secret', { environment: 'production', team: 'backend', owner: '' });
+
+      expect(result).toEqual({ tagged: ['environment', 'owner'], removed: ['legacy'] });
+      expect(secretsManagerMock.commandCalls(UntagResourceCommand)[0].args[0].input.TagKeys).toEqual(['legacy']);
+      expect(secretsManagerMock.commandCalls(TagResourceCommand)[0].args[0].input.Tags).toEqual([
+        { Key: 'environment', Value: 'production' },
+        { Key: 'owner', Value: '' },
+      ]);
+    });
+
+    it('should not send requests when the tags already match', async () => {
+      secretsManagerMock.on(DescribeSecretCommand).resolves({ Tags: [{ Key: 'team', Value: 'backend' }] });
+
+      expect(await secretsManager.setTags('test-secret', { team: 'backend' })).toEqual({ tagged: [], removed: [] });
+      expect(secretsManagerMock.calls()).toHaveLength(1);
+    });
+  });
+
+  describe('findSecretsByTags', () => {
+    it('should narrow by tag keys and match values exactly across pages', async () => {
+      secretsManagerMock
+        .on(ListSecretsCommand)
+        .resolvesOnce({
+          SecretList: [
+            { Name: 'prod/db', Tags: [{ Key: 'env', Value: 'prod' }, { Key: 'team', Value: 'backend' }] },
+            { Name: 'prod/db-replica', Tags: [{ Key: 'env', Value: 'production' }, { Key: 'team', Value: 'backend' }] },
+          ],
+          NextToken: 'page-2',
+        })
+        .resolvesOnce({
+          SecretList: [
+            { Name: 'staging/db', Tags: [{ Key: 'env', Value: 'staging' }, { Key: 'team', Value: 'backend' }] },
+            { Name: 'prod/web', Tags: [{ Key: 'env', Value: 'prod' }] },
+          ],
+        });
+
+      const secrets = await secretsManager.findSecretsByTags(
+        { env: ['prod', 'staging'], team: true },
+        { filters: [{ Key: 'name', Values: ['prod/', 'staging/'] }] }
+      );
+
+      expect(secrets.map(secret => secret.name)).toEqual(['prod/db', 'staging/db']);
+      expect(secretsManagerMock.commandCalls(ListSecretsCommand)[0].args[0].input.Filters).toEqual([
+        { Key: 'name', Values: ['prod/', 'staging/'] },
+        { Key: 'tag-key', Values: ['env', 'team'] },
+      ]);
+    });
+  });
+
+  describe('resource policy', () => {
+    const policy = new ResourcePolicyBuilder().allow({ principals: { aws: 'arn:aws:iam::123456789012:role/app' }, actions: ['GetSecretValue'] }).build();
+
+    it('should return the parsed policy', async () => {
+      secretsManagerMock.on(GetResourcePolicyCommand).resolves({ ARN: 'arn:test-secret', Name: 'test-secret', ResourcePolicy: JSON.stringify(policy) });
+
+      expect(await secretsManager.getResourcePolicy('test-secret')).toEqual({ arn: 'arn:test-secret', name: 'test-secret', policy });
+    });
+
+    it('should return no policy when none is attached', async () => {
+      secretsManagerMock.on(GetResourcePolicyCommand).resolves({ ARN: 'arn:test-secret', Name: 'test-secret' });
+
+      expect((await secretsManager.getResourcePolicy('test-secret')).policy).toBeUndefined();
+    });
+
+    it('should block public policies unless told otherwise', async () => {
+      secretsManagerMock.on(PutResourcePolicyCommand).resolves({ ARN: 'arn:test-secret', Name: 'test-secret' });
+
+      await secretsManager.putResourcePolicy('test-secret', policy);
+      await secretsManager.putResourcePolicy('test-secret', '{"Version":"2012-10-17","Statement":[]}', { blockPublicPolicy: false });
+
+      const calls = secretsManagerMock.commandCalls(PutResourcePolicyCommand);
+      expect(calls[0].args[0].input).toEqual({ SecretId: 'test-secret', ResourcePolicy: JSON.stringify(policy), BlockPublicPolicy: true });
+      expect(calls[1].args[0].input).toEqual({ SecretId: 'test-secret', ResourcePolicy: '{"Version":"2012-10-17","Statement":[]}', BlockPublicPolicy: false });
+    });
+
+    it('should map a rejected public policy', async () => {
+      secretsManagerMock.on(PutResourcePolicyCommand).rejects({ name: 'PublicPolicyException', message: 'The resource policy did not prevent broad access to the secret.' });
+
+      await expect(secretsManager.putResourcePolicy('test-secret', policy)).rejects.toThrow(InvalidSecretParameterError);
+    });
+
+    it('should delete the policy', async () => {
+      secretsManagerMock.on(DeleteResourcePolicyCommand, { SecretId: 'test-secret' }).resolves({ ARN: 'arn:test-secret', Name: 'test-secret' });
+
+      expect(await secretsManager.deleteResourcePolicy('test-secret')).toEqual({ arn: 'arn:test-secret', name: 'test-secret' });
+    });
+
+    it('should return validation findings as structured results', async () => {
+      secretsManagerMock.on(ValidateResourcePolicyCommand).resolves({
+        PolicyValidationPassed: false,
+        ValidationErrors: [{ CheckName: 'BROAD_ACCESS', ErrorMessage: 'The policy grants broad access.' }],
+      });
+
+      const result = await secretsManager.validateResourcePolicy(policy, { secretName: 'test-secret' });
+
+      expect(secretsManagerMock.commandCalls(ValidateResourcePolicyCommand)[0].args[0].input).toEqual({ SecretId: 'test-secret', ResourcePolicy: JSON.stringify(policy) });
+      expect(result).toEqual({ valid: false, findings: [{ checkName: 'BROAD_ACCESS', message: 'The policy grants broad access.' }] });
+    });
+  });
+
   describe('getSecretVersions', () => {
     it('should return all versions of a secret', async () => {
       const mockVersions = [
@@ -526,17 +1055,60 @@ describe('AWSSecretsManager', () => {
       expect(versions).toEqual([
         {
           versionId: 'v1',
+          versionStages: ['AWSCURRENT'],
           createdDate: mockVersions[0].CreatedDate,
+          lastAccessedDate: undefined,
+          kmsKeyIds: undefined,
           isLatest: true,
         },
         {
           versionId: 'v2',
+          versionStages: ['AWSPREVIOUS'],
           createdDate: mockVersions[1].CreatedDate,
+          lastAccessedDate: undefined,
+          kmsKeyIds: undefined,
           isLatest: false,
         },
       ]);
     });
 
+    it('should follow pagination until all versions are returned', async () => {
+      secretsManagerMock
+        .on(ListSecretVersionIdsCommand)
+        .resolvesOnce({ Versions: [{ VersionId: 'v1', VersionStages: ['AWSCURRENT'] }], NextToken: 'page-2' })
+        .resolvesOnce({ Versions: [{ VersionId: 'v2', VersionStages: ['AWSPREVIOUS'] }] });
+
+      const versions = await secretsManager.getSecretVersions('test-secret', { includeDeprecated: false });
+
+      expect(versions.map(version => version.versionId)).toEqual(['v1', 'v2']);
+      expect(secretsManagerMock.calls()[1].args[0].input).toEqual({
+        SecretId: 'test-secret',
+        IncludeDeprecated: false,
+        MaxResults: undefined,
+        NextToken: 'page-2',
+      });
+    });
+
+    it('should return a single page with its next token from listSecretVersions', async () => {
+      secretsManagerMock.on(ListSecretVersionIdsCommand).resolves({
+        Versions: [{ VersionId: 'v1', VersionStages: ['custom-label'], LastAccessedDate: new Date('2024-01-01') }],
+        NextToken: 'next-page',
+      });
+
+      const result = await secretsManager.listSecretVersions('test-secret', { maxResults: 1, includeDeprecated: false });
+
+      expect(secretsManagerMock.calls()).toHaveLength(1);
+      expect(secretsManagerMock.calls()[0].args[0].input).toEqual({
+        SecretId: 'test-secret',
+        IncludeDeprecated: false,
+        MaxResults: 1,
+        NextToken: undefined,
+      });
+      expect(result.versions[0].versionStages).toEqual(['custom-label']);
+      expect(result.versions[0].lastAccessedDate).toEqual(new Date('2024-01-01'));
+      expect(result.nextToken).toBe('next-page');
+    });
+
     it('should handle secret with no versions', async () => {
       secretsManagerMock.on(ListSecretVersionIdsCommand).resolves({
         Versions: [],
@@ -552,4 +1124,968 @@ describe('AWSSecretsManager', () => {
       await expect(secretsManager.getSecretVersions('test-secret')).rejects.toThrow('Failed to get secret versions');
     });
   });
+
+  describe('rotation', () => {
+    it('should start an immediate rotation', async () => {
+      secretsManagerMock.on(RotateSecretCommand).resolves({ ARN: 'arn', Name: 'test-secret', VersionId: 'v2' });
+
+      const result = await secretsManager.rotateSecret('test-secret');
+
+      expect(result).toEqual({ arn: 'arn', name: 'test-secret', versionId: 'v2' });
+      expect(secretsManagerMock.calls()[0].args[0].input).toEqual({
+        SecretId: 'test-secret',
+        ClientRequestToken: undefined,
+        RotateImmediately: true,
+      });
+    });
+
+    it('should configure a rotation schedule', async () => {
+      secretsManagerMock.on(RotateSecretCommand).resolves({ ARN: 'arn' });
+
+      await secretsManager.configureRotation('test-secret', {
+        lambdaArn: 'arn:aws:lambda:us-east-1:123456789012:function:rotator',
+        schedule: { scheduleExpression: 'rate(10 days)' },
+        duration: '2h',
+      });
+
+      expect(secretsManagerMock.calls()[0].args[0].input).toEqual({
+        SecretId: 'test-secret',
+        RotationLambdaARN: 'arn:aws:lambda:us-east-1:123456789012:function:rotator',
+        RotationRules: {
+          AutomaticallyAfterDays: undefined,
+          ScheduleExpression: 'rate(10 days)',
+          Duration: '2h',
+        },
+        RotateImmediately: false,
+      });
+    });
+
+    it('should cancel a rotation', async () => {
+      secretsManagerMock.on(CancelRotateSecretCommand).resolves({ ARN: 'arn', Name: 'test-secret' });
+
+      const result = await secretsManager.cancelRotateSecret('test-secret');
+      expect(result).toEqual({ arn: 'arn', name: 'test-secret', versionId: undefined });
+    });
+
+    it('should read the rotation configuration', async () => {
+      const lastRotatedDate = new Date('2024-01-01');
+      const nextRotationDate = new Date('2024-01-31');
+      secretsManagerMock.on(DescribeSecretCommand).resolves({
+        RotationEnabled: true,
+        RotationLambdaARN: 'lambda-arn',
+        RotationRules: { AutomaticallyAfterDays: 30 },
+        LastRotatedDate: lastRotatedDate,
+        NextRotationDate: nextRotationDate,
+      });
+
+      const config = await secretsManager.getRotationConfig('test-secret');
+      expect(config).toEqual({
+        enabled: true,
+        lambdaArn: 'lambda-arn',
+        automaticallyAfterDays: 30,
+        scheduleExpression: undefined,
+        duration: undefined,
+        lastRotatedDate,
+        nextRotationDate,
+      });
+    });
+
+    it('should map not found errors', async () => {
+      secretsManagerMock.on(RotateSecretCommand).rejects({
+        name: 'ResourceNotFoundException',
+        message: "Secrets Manager can't find the specified secret.",
+      });
+
+      await expect(secretsManager.rotateSecret('missing-secret')).rejects.toThrow('Secret "missing-secret" not found.');
+    });
+
+    it('should handle rotation errors', async () => {
+      secretsManagerMock.on(CancelRotateSecretCommand).rejects(new Error('Cancel failed'));
+
+      await expect(secretsManager.cancelRotateSecret('test-secret')).rejects.toThrow('Failed to cancel secret rotation');
+    });
+  });
+
+  describe('version stages', () => {
+    it('should read a secret by staging label', async () => {
+      secretsManagerMock.on(GetSecretValueCommand).resolves({ SecretString: 'previous-value' });
+
+      const result = await secretsManager.getSecret('test-secret', { parse: false, versionStage: 'AWSPREVIOUS' });
+
+      expect(result).toBe('previous-value');
+      expect(secretsManagerMock.calls()[0].args[0].input).toEqual({
+        SecretId: 'test-secret',
+        VersionId: undefined,
+        VersionStage: 'AWSPREVIOUS',
+      });
+    });
+
+    it('should promote a version to AWSCURRENT', async () => {
+      secretsManagerMock.on(DescribeSecretCommand).resolves({
+        VersionIdsToStages: { v1: ['AWSCURRENT'], v2: ['custom-label'] },
+      });
+      secretsManagerMock.on(UpdateSecretVersionStageCommand).resolves({});
+
+      const result = await secretsManager.promoteVersion('test-secret', 'v2');
+
+      expect(result).toEqual({ versionStage: 'AWSCURRENT', versionId: 'v2', removedFromVersionId: 'v1' });
+      expect(secretsManagerMock.commandCalls(UpdateSecretVersionStageCommand)[0].args[0].input).toEqual({
+        SecretId: 'test-secret',
+        VersionStage: 'AWSCURRENT',
+        MoveToVersionId: 'v2',
+        RemoveFromVersionId: 'v1',
+      });
+    });
+
+    it('should skip the update when the version already holds the label', async () => {
+      secretsManagerMock.on(DescribeSecretCommand).resolves({
+        VersionIdsToStages: { v1: ['AWSCURRENT'] },
+      });
+
+      const result = await secretsManager.promoteVersion('test-secret', 'v1');
+
+      expect(result).toEqual({ versionStage: 'AWSCURRENT', versionId: 'v1' });
+      expect(secretsManagerMock.commandCalls(UpdateSecretVersionStageCommand)).toHaveLength(0);
+    });
+
+    it('should roll back to the AWSPREVIOUS version', async () => {
+      secretsManagerMock.on(DescribeSecretCommand).resolves({
+        VersionIdsToStages: { v1: ['AWSPREVIOUS'], v2: ['AWSCURRENT'] },
+      });
+      secretsManagerMock.on(UpdateSecretVersionStageCommand).resolves({});
+
+      const result = await secretsManager.rollbackSecret('test-secret');
+
+      expect(result).toEqual({ versionStage: 'AWSCURRENT', versionId: 'v1', removedFromVersionId: 'v2' });
+    });
+
+    it('should fail to roll back without a previous version', async () => {
+      secretsManagerMock.on(DescribeSecretCommand).resolves({
+        VersionIdsToStages: { v1: ['AWSCURRENT'] },
+      });
+
+      const error = await secretsManager.rollbackSecret('test-secret').catch(e => e);
+
+      expect(error.message).toContain('has no AWSPREVIOUS version');
+      expect(error).toMatchObject({ operation: 'rollbackSecret', secretId: 'test-secret' });
+    });
+  });
+
+  describe('pagination helpers', () => {
+    it('should iterate over every page of secrets', async () => {
+      secretsManagerMock
+        .on(ListSecretsCommand)
+        .resolvesOnce({ SecretList: [{ Name: 'secret1' }, { Name: 'secret2' }], NextToken: 'page2' })
+        .resolvesOnce({ SecretList: [{ Name: 'secret3' }] });
+
+      const names: string[] = [];
+      for await (const name of secretsManager.iterateSecrets()) {
+        names.push(name);
+      }
+
+      expect(names).toEqual(['secret1', 'secret2', 'secret3']);
+      expect(secretsManagerMock.commandCalls(ListSecretsCommand)[1].args[0].input.NextToken).toBe('page2');
+    });
+
+    it('should stop listing at maxItems', async () => {
+      secretsManagerMock.on(ListSecretsCommand).resolves({ SecretList: [{ Name: 'secret1' }, { Name: 'secret2' }], NextToken: 'more' });
+
+      const names = await secretsManager.listAllSecrets({ maxItems: 3 });
+
+      expect(names).toEqual(['secret1', 'secret2', 'secret1']);
+      expect(secretsManagerMock.commandCalls(ListSecretsCommand)).toHaveLength(2);
+    });
+
+    it('should stop when the signal is aborted', async () => {
+      const controller = new AbortController();
+      secretsManagerMock.on(ListSecretsCommand).callsFake(() => {
+        controller.abort();
+        return { SecretList: [{ Name: 'secret1' }], NextToken: 'more' };
+      });
+
+      const error = await secretsManager.listAllSecrets({ signal: controller.signal }).catch(e => e);
+
+      expect(error).toBeInstanceOf(SecretOperationAbortedError);
+      expect(error).toMatchObject({ message: 'Operation aborted', operation: 'iterateSecrets', reason: controller.signal.reason });
+      expect(secretsManagerMock.commandCalls(ListSecretsCommand)).toHaveLength(1);
+    });
+
+    it('should split long ID lists into chunks and merge the results', async () => {
+      const secretIds = Array.from({ length: 25 }, (_, i) => `secret${i}`);
+      secretsManagerMock.on(BatchGetSecretValueCommand).callsFake(input => ({
+        SecretValues: input.SecretIdList.slice(1).map((id: string) => ({ Name: id, SecretString: id })),
+        Errors: [{ SecretId: input.SecretIdList[0], ErrorCode: 'ResourceNotFoundException', Message: 'Secret not found' }],
+      }));
+
+      const result = await secretsManager.batchGetAllSecrets({ secretIds });
+
+      const calls = secretsManagerMock.commandCalls(BatchGetSecretValueCommand);
+      expect(calls).toHaveLength(2);
+      expect(calls[0].args[0].input.SecretIdList).toHaveLength(20);
+      expect(calls[1].args[0].input.SecretIdList).toHaveLength(5);
+      expect(Object.keys(result.secrets)).toHaveLength(23);
+      expect(result.errors.map(error => error.secretId)).toEqual(['secret0', 'secret20']);
+      expect(result.nextToken).toBeUndefined();
+    });
+
+    it('should follow NextToken for batch results', async () => {
+      secretsManagerMock
+        .on(BatchGetSecretValueCommand)
+        .resolvesOnce({ SecretValues: [{ Name: 'secret1', SecretString: 'value1' }], NextToken: 'page2' })
+        .resolvesOnce({ SecretValues: [{ Name: 'secret2', SecretString: 'value2' }] });
+
+      const result = await secretsManager.batchGetAllSecrets({ secretIds: [], filters: [{ Key: 'tag-key', Values: ['env'] }] });
+
+      expect(result.secrets).toEqual({ secret1: 'value1', secret2: 'value2' });
+    });
+
+    it('should stop batch retrieval at maxItems', async () => {
+      secretsManagerMock.on(BatchGetSecretValueCommand).resolves({
+        SecretValues: [
+          { Name: 'secret1', SecretString: 'value1' },
+          { Name: 'secret2', SecretString: 'value2' },
+        ],
+        NextToken: 'more',
+      });
+
+      const result = await secretsManager.batchGetAllSecrets({ secretIds: ['secret1', 'secret2'], maxItems: 1 });
+
+      expect(result.secrets).toEqual({ secret1: 'value1' });
+      expect(secretsManagerMock.commandCalls(BatchGetSecretValueCommand)).toHaveLength(1);
+    });
+  });
+
+  describe('describeSecret', () => {
+    it('should return typed metadata', async () => {
+      const deletedDate = new Date('2024-02-01');
+      secretsManagerMock.on(DescribeSecretCommand).resolves({
+        ARN: 'arn:test-secret',
+        Name: 'test-secret',
+        Description: 'Database credentials',
+        KmsKeyId: 'kms-key',
+        RotationEnabled: true,
+        RotationLambdaARN: 'lambda-arn',
+        RotationRules: { AutomaticallyAfterDays: 30 },
+        DeletedDate: deletedDate,
+        Tags: [{ Key: 'team', Value: 'backend' }],
+        VersionIdsToStages: { v1: ['AWSCURRENT'] },
+        OwningService: 'rds',
+        PrimaryRegion: 'us-east-1',
+        ReplicationStatus: [{ Region: 'eu-west-1', Status: 'InSync', StatusMessage: 'Replication succeeded' }],
+      });
+
+      const metadata = await secretsManager.describeSecret('test-secret');
+
+      expect(metadata).toEqual({
+        arn: 'arn:test-secret',
+        name: 'test-secret',
+        description: 'Database credentials',
+        kmsKeyId: 'kms-key',
+        rotationEnabled: true,
+        rotationLambdaArn: 'lambda-arn',
+        automaticallyAfterDays: 30,
+        scheduleExpression: undefined,
+        createdDate: undefined,
+        lastChangedDate: undefined,
+        lastAccessedDate: undefined,
+        lastRotatedDate: undefined,
+        nextRotationDate: undefined,
+        deletedDate,
+        tags: { team: 'backend' },
+        versionIdsToStages: { v1: ['AWSCURRENT'] },
+        owningService: 'rds',
+        primaryRegion: 'us-east-1',
+        replicationStatus: [
+          {
+            region: 'eu-west-1',
+            kmsKeyId: undefined,
+            status: 'InSync',
+            statusMessage: 'Replication succeeded',
+            lastAccessedDate: undefined,
+          },
+        ],
+      });
+    });
+
+    it('should handle non-existent secret', async () => {
+      secretsManagerMock.on(DescribeSecretCommand).rejects({
+        name: 'ResourceNotFoundException',
+        message: 'Secret not found',
+      });
+
+      await expect(secretsManager.describeSecret('missing-secret')).rejects.toThrow('Secret "missing-secret" not found.');
+    });
+  });
+
+  describe('replication', () => {
+    const arn = 'arn:aws:secretsmanager:us-east-1:123456789012:secret:prod/db-AbCdEf';
+
+    it('should replicate a secret to additional regions', async () => {
+      secretsManagerMock.on(ReplicateSecretToRegionsCommand).resolves({
+        ARN: arn,
+        ReplicationStatus: [
+          { Region: 'eu-west-1', Status: 'InProgress' },
+          { Region: 'ap-south-1', KmsKeyId: 'alias/replica', Status: 'InProgress' },
+        ],
+      });
+
+      const result = await secretsManager.replicateSecret('prod/db', ['eu-west-1', { region: 'ap-south-1', kmsKeyId: 'alias/replica' }], { forceOverwriteReplicaSecret: true });
+
+      expect(secretsManagerMock.commandCalls(ReplicateSecretToRegionsCommand)[0].args[0].input).toEqual({
+        SecretId: 'prod/db',
+        AddReplicaRegions: [{ Region: 'eu-west-1' }, { Region: 'ap-south-1', KmsKeyId: 'alias/replica' }],
+        ForceOverwriteReplicaSecret: true,
+      });
+      expect(result).toEqual({
+        arn,
+        replicationStatus: [
+          { region: 'eu-west-1', status: 'InProgress' },
+          { region: 'ap-south-1', kmsKeyId: 'alias/replica', status: 'InProgress' },
+        ],
+      });
+    });
+
+    it('should remove replica regions', async () => {
+      secretsManagerMock.on(RemoveRegionsFromReplicationCommand).resolves({ ARN: arn, ReplicationStatus: [] });
+
+      expect(await secretsManager.removeReplicaRegions('prod/db', ['eu-west-1'])).toEqual({ arn, replicationStatus: [] });
+      expect(secretsManagerMock.commandCalls(RemoveRegionsFromReplicationCommand)[0].args[0].input).toEqual({
+        SecretId: 'prod/db',
+        RemoveReplicaRegions: ['eu-west-1'],
+      });
+    });
+
+    it('should promote a replica using its regional ARN', async () => {
+      const replicaArn = arn.replace('us-east-1', 'eu-west-1');
+      secretsManagerMock.on(StopReplicationToReplicaCommand, { SecretId: replicaArn }).resolves({ ARN: replicaArn });
+
+      expect(await secretsManager.stopReplicationToReplica(arn, 'eu-west-1')).toEqual({ arn: replicaArn });
+    });
+
+    it('should report replicas that are out of sync', async () => {
+      secretsManagerMock.on(DescribeSecretCommand).resolves({
+        ARN: arn,
+        Name: 'prod/db',
+        PrimaryRegion: 'us-east-1',
+        ReplicationStatus: [
+          { Region: 'eu-west-1', Status: 'InSync' },
+          { Region: 'ap-south-1', Status: 'Failed', StatusMessage: 'Secret already exists in region' },
+        ],
+      });
+
+      const report = await secretsManager.getReplicationStatus('prod/db');
+
+      expect(report.inSync).toBe(false);
+      expect(report.primaryRegion).toBe('us-east-1');
+      expect(report.replicas.map(replica => replica.region)).toEqual(['eu-west-1', 'ap-south-1']);
+      expect(report.failed).toEqual([{ region: 'ap-south-1', status: 'Failed', statusMessage: 'Secret already exists in region' }]);
+    });
+
+    it('should read from the first replica that answers when the primary region fails', async () => {
+      const failoverManager = new AWSSecretsManager({ region: 'us-east-1', failoverRegions: ['eu-west-1', 'ap-south-1'] });
+      secretsManagerMock.on(GetSecretValueCommand, { SecretId: arn }).rejects({ name: 'InternalServiceError', message: 'Internal error', $metadata: { httpStatusCode: 500 } });
+      secretsManagerMock.on(GetSecretValueCommand, { SecretId: arn.replace('us-east-1', 'eu-west-1') }).rejects(new Error('connect ETIMEDOUT'));
+      secretsManagerMock.on(GetSecretValueCommand, { SecretId: arn.replace('us-east-1', 'ap-south-1') }).resolves({ SecretString: 'replica-value' });
+
+      expect(await failoverManager.getSecret(arn)).toBe('replica-value');
+      expect(secretsManagerMock.commandCalls(GetSecretValueCommand)).toHaveLength(3);
+    });
+
+    it('should not fail over when the secret is missing or access is denied', async () => {
+      const failoverManager = new AWSSecretsManager({ region: 'us-east-1', failoverRegions: ['eu-west-1'] });
+      secretsManagerMock.on(GetSecretValueCommand).rejectsOnce({ name: 'ResourceNotFoundException', message: 'Not found' }).rejectsOnce({ name: 'AccessDeniedException', message: 'Denied' });
+
+      await expect(failoverManager.getSecret('prod/db')).rejects.toBeInstanceOf(SecretNotFoundError);
+      await expect(failoverManager.getSecret('prod/db')).rejects.toBeInstanceOf(SecretAccessDeniedError);
+      expect(secretsManagerMock.commandCalls(GetSecretValueCommand)).toHaveLength(2);
+    });
+
+    it('should report the primary error when every replica fails too', async () => {
+      const failoverManager = new AWSSecretsManager({ region: 'us-east-1', failoverRegions: ['eu-west-1'] });
+      secretsManagerMock.on(GetSecretValueCommand).rejectsOnce({ name: 'ThrottlingException', message: 'Rate exceeded' }).rejectsOnce({ name: 'ResourceNotFoundException', message: 'Not found' });
+
+      await expect(failoverManager.getSecret('prod/db')).rejects.toBeInstanceOf(SecretThrottledError);
+      expect(secretsManagerMock.commandCalls(GetSecretValueCommand)).toHaveLength(2);
+    });
+  });
+
+  describe('error mapping', () => {
+    it('should map not found errors with request details', async () => {
+      secretsManagerMock.on(GetSecretValueCommand).rejects({
+        name: 'ResourceNotFoundException',
+        message: "Secrets Manager can't find the specified secret.",
+        $metadata: { requestId: 'req-123', httpStatusCode: 400 },
+      });
+
+      const error = await secretsManager.getSecret('missing-secret').catch(e => e);
+
+      expect(error).toBeInstanceOf(SecretNotFoundError);
+      expect(error).toBeInstanceOf(SecretsManagerError);
+      expect(error).toMatchObject({
+        name: 'SecretNotFoundError',
+        secretId: 'missing-secret',
+        operation: 'getSecret',
+        requestId: 'req-123',
+        statusCode: 400,
+        retryable: false,
+      });
+    });
+
+    it('should map a deleted secret', async () => {
+      secretsManagerMock.on(GetSecretValueCommand).rejects({
+        name: 'InvalidRequestException',
+        message: 'You tried to perform the operation on a secret that is currently marked for deletion.',
+      });
+
+      await expect(secretsManager.getSecret('deleted-secret')).rejects.toBeInstanceOf(SecretMarkedForDeletionError);
+    });
+
+    it('should map throttling as retryable', async () => {
+      secretsManagerMock.on(ListSecretsCommand).rejects({ name: 'ThrottlingException', message: 'Rate exceeded' });
+
+      const error = await secretsManager.listSecrets().catch(e => e);
+
+      expect(error).toBeInstanceOf(SecretThrottledError);
+      expect(error.retryable).toBe(true);
+      expect(error.operation).toBe('listSecrets');
+    });
+
+    it('should map the same AWS error the same way in every method', async () => {
+      secretsManagerMock.on(BatchGetSecretValueCommand).rejects({ name: 'AccessDeniedException', message: 'denied' });
+      secretsManagerMock.on(TagResourceCommand).rejects({ name: 'AccessDeniedException', message: 'denied' });
+
+      await expect(secretsManager.batchGetSecrets({ secretIds: ['secret1'] })).rejects.toBeInstanceOf(SecretAccessDeniedError);
+      await expect(secretsManager.tagSecret('secret1', { env: 'prod' })).rejects.toBeInstanceOf(SecretAccessDeniedError);
+    });
+
+    it('should map existing secrets on create', async () => {
+      secretsManagerMock.on(CreateSecretCommand).rejects({ name: 'ResourceExistsException', message: 'exists' });
+
+      await expect(secretsManager.createSecret('existing-secret', 'value')).rejects.toThrow(new SecretAlreadyExistsError('Secret "existing-secret" already exists.'));
+    });
+
+    it('should map invalid parameters', async () => {
+      secretsManagerMock.on(DeleteSecretCommand).rejects({ name: 'InvalidParameterException', message: 'RecoveryWindowInDays is out of range' });
+
+      const error = await secretsManager.deleteSecret('test-secret', { recoveryDays: 3 }).catch(e => e);
+
+      expect(error).toBeInstanceOf(InvalidSecretParameterError);
+      expect(error.message).toBe('Failed to delete secret: RecoveryWindowInDays is out of range');
+    });
+
+    it('should mark server errors as retryable', async () => {
+      secretsManagerMock.on(DescribeSecretCommand).rejects({ name: 'InternalServiceError', message: 'boom', $metadata: { httpStatusCode: 500 } });
+
+      const error = await secretsManager.describeSecret('test-secret').catch(e => e);
+
+      expect(error.constructor).toBe(SecretsManagerError);
+      expect(error.retryable).toBe(true);
+      expect(error.message).toBe('Failed to describe secret');
+    });
+  });
+
+  describe('retry policy', () => {
+    beforeEach(() => {
+      jest.useFakeTimers();
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it('should retry throttled requests with exponential backoff', async () => {
+      const onRetry = jest.fn();
+      const retryingManager = new AWSSecretsManager({
+        retry: { maxAttempts: 3, baseDelay: 100, jitter: false, onRetry },
+      });
+      secretsManagerMock
+        .on(GetSecretValueCommand)
+        .rejectsOnce({ name: 'ThrottlingException', message: 'Rate exceeded' })
+        .rejectsOnce({ name: 'ThrottlingException', message: 'Rate exceeded' })
+        .resolves({ SecretString: 'value' });
+
+      const promise = retryingManager.getSecret('test-secret', { parse: false });
+      await jest.advanceTimersByTimeAsync(100);
+      expect(secretsManagerMock.commandCalls(GetSecretValueCommand)).toHaveLength(2);
+      await jest.advanceTimersByTimeAsync(200);
+
+      expect(await promise).toBe('value');
+      expect(onRetry).toHaveBeenCalledTimes(2);
+      expect(onRetry).toHaveBeenNthCalledWith(1, expect.objectContaining({ operation: 'getSecret', attempt: 1, delay: 100 }));
+      expect(onRetry).toHaveBeenNthCalledWith(2, expect.objectContaining({ operation: 'getSecret', attempt: 2, delay: 200 }));
+    });
+
+    it('should reuse one idempotency token when retrying a write', async () => {
+      const retryingManager = new AWSSecretsManager({ retry: { maxAttempts: 2, baseDelay: 10, jitter: false } });
+      secretsManagerMock
+        .on(PutSecretValueCommand)
+        .rejectsOnce({ name: 'InternalServiceError', message: 'Internal error' })
+        .resolves({ VersionId: 'v2' });
+
+      const promise = retryingManager.putSecretValue('test-secret', 'value');
+      await jest.advanceTimersByTimeAsync(10);
+      await promise;
+
+      const tokens = secretsManagerMock.commandCalls(PutSecretValueCommand).map(call => call.args[0].input.ClientRequestToken);
+      expect(tokens).toHaveLength(2);
+      expect(tokens[0]).toEqual(expect.any(String));
+      expect(tokens[1]).toBe(tokens[0]);
+    });
+
+    it('should give up after maxAttempts', async () => {
+      const retryingManager = new AWSSecretsManager({ retry: { maxAttempts: 2, baseDelay: 10 } });
+      secretsManagerMock.on(ListSecretsCommand).rejects({ name: 'ThrottlingException', message: 'Rate exceeded' });
+
+      const promise = retryingManager.listSecrets().catch(e => e);
+      await jest.advanceTimersByTimeAsync(10);
+
+      expect(await promise).toBeInstanceOf(SecretThrottledError);
+      expect(secretsManagerMock.commandCalls(ListSecretsCommand)).toHaveLength(2);
+    });
+
+    it('should not retry errors that are not retryable', async () => {
+      const retryingManager = new AWSSecretsManager({ retry: { maxAttempts: 5 } });
+      secretsManagerMock.on(DescribeSecretCommand).rejects({ name: 'ResourceNotFoundException', message: 'not found' });
+
+      await expect(retryingManager.describeSecret('missing-secret')).rejects.toBeInstanceOf(SecretNotFoundError);
+      expect(secretsManagerMock.commandCalls(DescribeSecretCommand)).toHaveLength(1);
+    });
+
+    it('should retry server errors and dropped connections by default', async () => {
+      const retryingManager = new AWSSecretsManager({ retry: { maxAttempts: 3, baseDelay: 10, jitter: false } });
+      secretsManagerMock
+        .on(GetSecretValueCommand)
+        .rejectsOnce({ name: 'SomethingUnexpected', message: 'Service Unavailable', $metadata: { httpStatusCode: 503 } })
+        .rejectsOnce(Object.assign(new Error('socket hang up'), { code: 'ECONNRESET' }))
+        .resolves({ SecretString: 'value' });
+
+      const promise = retryingManager.getSecret('test-secret', { parse: false });
+      await jest.advanceTimersByTimeAsync(30);
+
+      expect(await promise).toBe('value');
+      expect(secretsManagerMock.commandCalls(GetSecretValueCommand)).toHaveLength(3);
+    });
+
+    it('should respect a custom list of retryable errors', async () => {
+      const retryingManager = new AWSSecretsManager({ retry: { maxAttempts: 2, baseDelay: 10, retryableErrors: ['ResourceNotFoundException'] } });
+      secretsManagerMock.on(DescribeSecretCommand).rejectsOnce({ name: 'ResourceNotFoundException', message: 'not found' }).resolves({ Name: 'test-secret' });
+
+      const promise = retryingManager.describeSecret('test-secret');
+      await jest.advanceTimersByTimeAsync(10);
+
+      expect((await promise).name).toBe('test-secret');
+    });
+
+    it('should time out slow attempts and retry them', async () => {
+      const retryingManager = new AWSSecretsManager({ retry: { maxAttempts: 2, baseDelay: 10, jitter: false, timeout: 1000 } });
+      secretsManagerMock
+        .on(TagResourceCommand)
+        .callsFakeOnce(() => new Promise(() => undefined))
+        .resolves({});
+
+      const promise = retryingManager.tagSecret('test-secret', { env: 'prod' });
+      await jest.advanceTimersByTimeAsync(1010);
+
+      expect((await promise).success).toBe(true);
+      expect(secretsManagerMock.commandCalls(TagResourceCommand)).toHaveLength(2);
+      expect((secretsManagerMock.commandCalls(TagResourceCommand)[0].args as unknown[])[1]).toEqual({ abortSignal: expect.objectContaining({ aborted: true }) });
+    });
+  });
+
+  describe('observability hooks', () => {
+    it('should report each operation without secret values', async () => {
+      const events: OperationEndEvent[] = [];
+      const onStart = jest.fn();
+      const observedManager = new AWSSecretsManager({ hooks: { onStart, onEnd: event => events.push(event) } });
+      secretsManagerMock.on(GetSecretValueCommand).resolves({ SecretString: 'super-secret-value' });
+      secretsManagerMock.on(DescribeSecretCommand).rejects({ name: 'ResourceNotFoundException', message: 'Not found', $metadata: { requestId: 'req-1', httpStatusCode: 400 } });
+
+      await observedManager.getSecret('prod/db');
+      await expect(observedManager.describeSecret('missing')).rejects.toThrow(SecretNotFoundError);
+
+      expect(onStart).toHaveBeenCalledWith({ operation: 'getSecret', secretId: 'prod/db', startTime: expect.any(Number) });
+      expect(events).toEqual([
+        { operation: 'getSecret', secretId: 'prod/db', startTime: expect.any(Number), durationMs: expect.any(Number), outcome: 'success', attempts: 1 },
+        {
+          operation: 'describeSecret',
+          secretId: 'missing',
+          startTime: expect.any(Number),
+          durationMs: expect.any(Number),
+          outcome: 'error',
+          attempts: 1,
+          errorName: 'SecretNotFoundError',
+          retryable: false,
+          statusCode: 400,
+          requestId: 'req-1',
+        },
+      ]);
+      expect(JSON.stringify(events)).not.toContain('super-secret-value');
+    });
+
+    it('should report the cache status of reads', async () => {
+      const onEnd = jest.fn();
+      const observedManager = new AWSSecretsManager({ cache: { ttl: 60_000 }, hooks: [{ onEnd }] });
+      secretsManagerMock.on(GetSecretValueCommand).resolves({ SecretString: 'value' });
+
+      await observedManager.getSecret('prod/db');
+      await observedManager.getSecret('prod/db');
+      await observedManager.getSecret('prod/db', { bypassCache: true });
+
+      expect(onEnd.mock.calls.map(([event]) => [event.cache, event.attempts])).toEqual([
+        ['miss', 1],
+        ['hit', 0],
+        ['bypass', 1],
+      ]);
+    });
+
+    it('should count retries and pass end events to the callback returned by onStart', async () => {
+      const finish = jest.fn();
+      const observedManager = new AWSSecretsManager({ retry: { maxAttempts: 2, baseDelay: 1, jitter: false }, hooks: { onStart: () => finish } });
+      secretsManagerMock.on(GetSecretValueCommand).rejectsOnce({ name: 'ThrottlingException', message: 'Rate exceeded' }).resolves({ SecretString: 'value' });
+
+      await observedManager.getSecret('prod/db');
+
+      expect(finish).toHaveBeenCalledWith(expect.objectContaining({ operation: 'getSecret', outcome: 'success', attempts: 2 }));
+    });
+
+    it('should ignore errors thrown by hooks', async () => {
+      const observedManager = new AWSSecretsManager({
+        hooks: {
+          onStart: () => {
+            throw new Error('hook failed');
+          },
+          onEnd: () => {
+            throw new Error('hook failed');
+          },
+        },
+      });
+      secretsManagerMock.on(GetSecretValueCommand).resolves({ SecretString: 'value' });
+
+      expect(await observedManager.getSecret('prod/db', { parse: false })).toBe('value');
+    });
+  });
+
+  describe('redaction', () => {
+    it('should wrap the value in a SecretValue when asked to', async () => {
+      secretsManagerMock.on(GetSecretValueCommand).resolves({ SecretString: JSON.stringify({ password: 'hunter22' }) });
+
+      const secret = await secretsManager.getSecret<{ password: string }>('prod/db', { parse: true, redact: true });
+
+      expect(secret).toBeInstanceOf(SecretValue);
+      expect(JSON.stringify(secret)).toBe('"[REDACTED]"');
+      expect(secret.reveal()).toEqual({ password: 'hunter22' });
+    });
+
+    it('should write the plain value of SecretValues', async () => {
+      secretsManagerMock.on(PutSecretValueCommand).resolves({ VersionId: 'v2' });
+      secretsManagerMock.on(UpdateSecretCommand).resolves({ ARN: 'arn:prod/db' });
+
+      await secretsManager.putSecretValue('prod/api-key', new SecretValue('api-token-123'));
+      await secretsManager.updateSecret('prod/db', { username: 'app', password: new SecretValue('hunter22') });
+
+      expect(secretsManagerMock.commandCalls(PutSecretValueCommand)[0].args[0].input.SecretString).toBe('api-token-123');
+      expect(secretsManagerMock.commandCalls(UpdateSecretCommand)[0].args[0].input.SecretString).toBe('{"username":"app","password":"hunter22"}');
+    });
+
+    it('should register values read and written with the configured redactor', async () => {
+      const redactor = new SecretRedactor();
+      const redactingManager = new AWSSecretsManager({ redactor });
+      secretsManagerMock.on(GetSecretValueCommand).resolves({ SecretString: JSON.stringify({ username: 'service-user', password: 'hunter22' }) });
+      secretsManagerMock.on(PutSecretValueCommand).resolves({ VersionId: 'v2' });
+
+      await redactingManager.getSecret('prod/db');
+      await redactingManager.putSecretValue('prod/api-key', 'api-token-123');
+
+      expect(redactor.redact('service-user:hunter22 api-token-123')).toBe('[REDACTED]:[REDACTED] [REDACTED]');
+    });
+
+    it('should register binary values read with the configured redactor', async () => {
+      const redactor = new SecretRedactor();
+      const redactingManager = new AWSSecretsManager({ redactor });
+      secretsManagerMock.on(GetSecretValueCommand).resolves({ SecretBinary: Buffer.from('binary-token') });
+
+      await redactingManager.getSecret('prod/keystore');
+
+      expect(redactor.redact(`raw=binary-token b64=${Buffer.from('binary-token').toString('base64')}`)).toBe('raw=[REDACTED] b64=[REDACTED]');
+    });
+
+    it('should never echo secret values in error messages', async () => {
+      secretsManagerMock.on(GetSecretValueCommand).resolves({ SecretString: 'hunter22-not-json' });
+      const errors = await Promise.all([
+        secretsManager.getSecret('prod/db', { parse: true, strict: true }).catch(error => error),
+        secretsManager.getSecret('prod/db', { parse: true, validate: { type: 'object' } }).catch(error => error),
+        secretsManager.createSecret('prod/db', 'hunter22-not-json', { generate: { field: 'password' } }).catch(error => error),
+        secretsManager.createSecret('prod/db', 'hunter22-not-json', { validate: { type: 'object' } }).catch(error => error),
+      ]);
+
+      errors.forEach(error => {
+        expect(error).toBeInstanceOf(SecretsManagerError);
+        expect(error.message).not.toContain('hunter22');
+        expect(inspect(error)).not.toContain('hunter22');
+      });
+    });
+  });
+
+  describe('burst reads', () => {
+    it('should share one request between concurrent reads of the same secret', async () => {
+      secretsManagerMock.on(GetSecretValueCommand).resolves({ SecretString: 'value' });
+
+      const results = await Promise.all([1, 2, 3].map(() => secretsManager.getSecret('test-secret', { parse: false })));
+
+      expect(results).toEqual(['value', 'value', 'value']);
+      expect(secretsManagerMock.commandCalls(GetSecretValueCommand)).toHaveLength(1);
+    });
+
+    it('should not let a read issued after a write join a request sent before it', async () => {
+      let respond: (value: { SecretString: string }) => void = () => undefined;
+      secretsManagerMock
+        .on(GetSecretValueCommand)
+        .callsFakeOnce(() => new Promise(resolve => (respond = resolve)))
+        .resolves({ SecretString: 'v2' });
+      secretsManagerMock.on(UpdateSecretCommand).resolves({});
+
+      const before = secretsManager.getSecret('test-secret', { parse: false });
+      await secretsManager.updateSecret('test-secret', 'v2');
+      const after = secretsManager.getSecret('test-secret', { parse: false });
+      const again = secretsManager.getSecret('test-secret', { parse: false });
+      respond({ SecretString: 'v1' });
+
+      expect(await before).toBe('v1');
+      expect(await after).toBe('v2');
+      expect(await again).toBe('v2');
+      expect(secretsManagerMock.commandCalls(GetSecretValueCommand)).toHaveLength(2);
+    });
+
+    it('should not share requests for different versions, bypassed caches or when coalescing is off', async () => {
+      secretsManagerMock.on(GetSecretValueCommand).resolves({ SecretString: 'value' });
+
+      await Promise.all([
+        secretsManager.getSecret('test-secret'),
+        secretsManager.getSecret('test-secret', { version: 'v1' }),
+        secretsManager.getSecret('test-secret', { bypassCache: true }),
+      ]);
+      const uncoalesced = new AWSSecretsManager({ coalesceReads: false });
+      await Promise.all([uncoalesced.getSecret('test-secret'), uncoalesced.getSecret('test-secret')]);
+
+      expect(secretsManagerMock.commandCalls(GetSecretValueCommand)).toHaveLength(5);
+    });
+
+    it('should let the next read retry after a shared request fails', async () => {
+      secretsManagerMock
+        .on(GetSecretValueCommand)
+        .rejectsOnce({ name: 'InternalServiceError', message: 'boom' })
+        .resolves({ SecretString: 'value' });
+
+      const failed = await Promise.allSettled([secretsManager.getSecret('test-secret'), secretsManager.getSecret('test-secret')]);
+
+      expect(failed.map(result => result.status)).toEqual(['rejected', 'rejected']);
+      expect(await secretsManager.getSecret('test-secret', { parse: false })).toBe('value');
+      expect(secretsManagerMock.commandCalls(GetSecretValueCommand)).toHaveLength(2);
+    });
+
+    it('should limit the number of requests in flight', async () => {
+      const limited = new AWSSecretsManager({ maxConcurrency: 2, coalesceReads: false });
+      let active = 0;
+      let peak = 0;
+      secretsManagerMock.on(GetSecretValueCommand).callsFake(async () => {
+        peak = Math.max(peak, ++active);
+        await new Promise(resolve => setTimeout(resolve, 5));
+        active--;
+        return { SecretString: 'value' };
+      });
+
+      await Promise.all(['a', 'b', 'c', 'd', 'e'].map(name => limited.getSecret(name)));
+
+      expect(peak).toBe(2);
+      expect(secretsManagerMock.commandCalls(GetSecretValueCommand)).toHaveLength(5);
+    });
+
+    it('should batch reads made in the same tick into one BatchGetSecretValue call', async () => {
+      const batching = new AWSSecretsManager({ batchReads: true });
+      secretsManagerMock.on(BatchGetSecretValueCommand).resolves({
+        SecretValues: [
+          { Name: 'db', ARN: 'arn:db', SecretString: '{"user":"app"}', VersionId: 'v1' },
+          { Name: 'api-key', ARN: 'arn:api-key', SecretString: 'key-123' },
+        ],
+        Errors: [{ SecretId: 'missing', ErrorCode: 'ResourceNotFoundException', Message: 'Secret not found' }],
+      });
+
+      const [db, apiKey, missing] = await Promise.allSettled([
+        batching.getSecret('db'),
+        batching.getSecret('api-key', { parse: false }),
+        batching.getSecret('missing'),
+      ]);
+
+      expect(db).toEqual({ status: 'fulfilled', value: { user: 'app' } });
+      expect(apiKey).toEqual({ status: 'fulfilled', value: 'key-123' });
+      expect(missing.status).toBe('rejected');
+      expect((missing as PromiseRejectedResult).reason).toBeInstanceOf(SecretNotFoundError);
+      expect(secretsManagerMock.commandCalls(BatchGetSecretValueCommand)).toHaveLength(1);
+      expect(secretsManagerMock.commandCalls(BatchGetSecretValueCommand)[0].args[0].input).toEqual({ SecretIdList: ['db', 'api-key', 'missing'] });
+      expect(secretsManagerMock.commandCalls(GetSecretValueCommand)).toHaveLength(0);
+    });
+
+    it('should read secrets one by one when BatchGetSecretValue is not allowed', async () => {
+      const batching = new AWSSecretsManager({ batchReads: true });
+      secretsManagerMock.on(BatchGetSecretValueCommand).rejects({ name: 'AccessDeniedException', message: 'Not authorized' });
+      secretsManagerMock.on(GetSecretValueCommand, { SecretId: 'a' }).resolves({ SecretString: 'value-a' });
+      secretsManagerMock.on(GetSecretValueCommand, { SecretId: 'b' }).resolves({ SecretString: 'value-b' });
+
+      const results = await Promise.all([batching.getSecret('a', { parse: false }), batching.getSecret('b', { parse: false })]);
+
+      expect(results).toEqual(['value-a', 'value-b']);
+      expect(secretsManagerMock.commandCalls(GetSecretValueCommand)).toHaveLength(2);
+    });
+
+    it('should read versioned secrets and lone reads without batching', async () => {
+      const batching = new AWSSecretsManager({ batchReads: true });
+      secretsManagerMock.on(GetSecretValueCommand).resolves({ SecretString: 'value' });
+
+      await batching.getSecret('a');
+      await Promise.all([batching.getSecret('b', { version: 'v1' }), batching.getSecret('c', { versionStage: 'AWSPREVIOUS' })]);
+
+      expect(secretsManagerMock.commandCalls(BatchGetSecretValueCommand)).toHaveLength(0);
+      expect(secretsManagerMock.commandCalls(GetSecretValueCommand)).toHaveLength(3);
+    });
+  });
+
+  describe('deletion lifecycle', () => {
+    it('should return the scheduled deletion date', async () => {
+      const deletionDate = new Date('2024-03-01');
+      secretsManagerMock.on(DeleteSecretCommand).resolves({ ARN: 'arn', Name: 'test-secret', DeletionDate: deletionDate });
+
+      const result = await secretsManager.deleteSecret('test-secret');
+
+      expect(result).toEqual({ arn: 'arn', name: 'test-secret', deletionDate, dryRun: false });
+    });
+
+    it('should report what would be deleted in dry-run mode', async () => {
+      jest.spyOn(Date, 'now').mockReturnValue(new Date('2024-01-01T00:00:00Z').getTime());
+      secretsManagerMock.on(DescribeSecretCommand).resolves({ ARN: 'arn', Name: 'test-secret' });
+
+      const result = await secretsManager.deleteSecret('test-secret', { dryRun: true, recoveryDays: 7 });
+
+      expect(result).toEqual({ arn: 'arn', name: 'test-secret', deletionDate: new Date('2024-01-08T00:00:00Z'), dryRun: true });
+      expect(secretsManagerMock.commandCalls(DeleteSecretCommand)).toHaveLength(0);
+      jest.restoreAllMocks();
+    });
+
+    it('should report the existing date in a dry run for a secret already scheduled for deletion', async () => {
+      const deletedDate = new Date('2024-01-20T00:00:00Z');
+      secretsManagerMock.on(DescribeSecretCommand).resolves({ ARN: 'arn', Name: 'test-secret', DeletedDate: deletedDate });
+
+      const result = await secretsManager.deleteSecret('test-secret', { dryRun: true });
+
+      expect(result).toEqual({ arn: 'arn', name: 'test-secret', deletionDate: deletedDate, dryRun: true, alreadyScheduled: true });
+    });
+
+    it('should reject dry runs the API would reject', async () => {
+      await expect(secretsManager.deleteSecret('test-secret', { dryRun: true, recoveryDays: 3 })).rejects.toBeInstanceOf(InvalidSecretParameterError);
+      await expect(secretsManager.deleteSecret('test-secret', { dryRun: true, recoveryDays: 31 })).rejects.toBeInstanceOf(InvalidSecretParameterError);
+      await expect(secretsManager.deleteSecret('test-secret', { dryRun: true, recoveryDays: 7, forceDelete: true })).rejects.toBeInstanceOf(InvalidSecretParameterError);
+      expect(secretsManagerMock.calls()).toHaveLength(0);
+    });
+
+    it('should fail a dry run for a missing secret', async () => {
+      secretsManagerMock.on(DescribeSecretCommand).rejects({ name: 'ResourceNotFoundException', message: 'not found' });
+
+      await expect(secretsManager.deleteSecret('missing-secret', { dryRun: true })).rejects.toBeInstanceOf(SecretNotFoundError);
+    });
+
+    it('should restore a secret', async () => {
+      secretsManagerMock.on(RestoreSecretCommand).resolves({ ARN: 'arn', Name: 'test-secret' });
+
+      const result = await secretsManager.restoreSecret('test-secret');
+
+      expect(result).toEqual({ arn: 'arn', name: 'test-secret' });
+      expect(secretsManagerMock.calls()[0].args[0].input).toEqual({ SecretId: 'test-secret' });
+    });
+
+    it('should handle restore errors', async () => {
+      secretsManagerMock.on(RestoreSecretCommand).rejects(new Error('Restore failed'));
+
+      await expect(secretsManager.restoreSecret('test-secret')).rejects.toThrow('Failed to restore secret');
+    });
+
+    it('should list secrets pending deletion', async () => {
+      const deletedDate = new Date('2024-03-01');
+      secretsManagerMock
+        .on(ListSecretsCommand)
+        .resolvesOnce({ SecretList: [{ Name: 'active' }, { Name: 'deleted1', DeletedDate: deletedDate }], NextToken: 'page2' })
+        .resolvesOnce({ SecretList: [{ Name: 'deleted2', DeletedDate: deletedDate }] });
+
+      const pending = await secretsManager.listSecretsPendingDeletion();
+
+      expect(pending.map(secret => [secret.name, secret.deletedDate])).toEqual([
+        ['deleted1', deletedDate],
+        ['deleted2', deletedDate],
+      ]);
+      expect(secretsManagerMock.commandCalls(ListSecretsCommand)[0].args[0].input.IncludePlannedDeletion).toBe(true);
+    });
+
+    it('should include the scheduled deletion date when reading a deleted secret', async () => {
+      const deletedDate = new Date('2024-03-01T00:00:00Z');
+      secretsManagerMock.on(GetSecretValueCommand).rejects({
+        name: 'InvalidRequestException',
+        message: 'You tried to perform the operation on a secret that is currently marked for deletion.',
+      });
+      secretsManagerMock.on(DescribeSecretCommand).resolves({ Name: 'deleted-secret', DeletedDate: deletedDate });
+
+      const error = await secretsManager.getSecret('deleted-secret').catch(e => e);
+
+      expect(error).toBeInstanceOf(SecretMarkedForDeletionError);
+      expect(error.deletionDate).toEqual(deletedDate);
+      expect(error.message).toBe('The requested secret is scheduled for deletion on 2024-03-01T00:00:00.000Z and cannot be accessed.');
+      expect(error.secretId).toBe('deleted-secret');
+    });
+  });
+
+  describe('validation', () => {
+    const credentialsSchema = {
+      type: 'object' as const,
+      required: ['username', 'password'],
+      properties: { username: { type: 'string' as const }, password: { type: 'string' as const } },
+    };
+
+    it('should return a value that passes validation', async () => {
+      secretsManagerMock.on(GetSecretValueCommand).resolves({ SecretString: '{"username":"app","password":"secret"}' });
+
+      const result = await secretsManager.getSecret('db', { parse: true, validate: credentialsSchema });
+
+      expect(result).toEqual({ username: 'app', password: 'secret' });
+    });
+
+    it('should reject a value that fails validation', async () => {
+      secretsManagerMock.on(GetSecretValueCommand).resolves({ SecretString: '{"username":"app"}' });
+
+      const error = await secretsManager.getSecret('db', { parse: true, validate: credentialsSchema }).catch(e => e);
+
+      expect(error).toBeInstanceOf(SecretValidationError);
+      expect(error.fields).toEqual(['password']);
+      expect(error.operation).toBe('getSecret');
+    });
+
+    it('should reject non-JSON values in strict mode', async () => {
+      secretsManagerMock.on(GetSecretValueCommand).resolves({ SecretString: 'not-json' });
+
+      await expect(secretsManager.getSecret('db', { parse: true, strict: true })).rejects.toThrow('Secret "db" is not valid JSON.');
+    });
+
+    it('should validate every secret in a batch', async () => {
+      secretsManagerMock.on(BatchGetSecretValueCommand).resolves({
+        SecretValues: [
+          { Name: 'db1', SecretString: '{"username":"app","password":"secret"}' },
+          { Name: 'db2', SecretString: '{"username":"app"}' },
+        ],
+      });
+
+      await expect(secretsManager.batchGetSecrets({ secretIds: ['db1', 'db2'], parse: true, validate: credentialsSchema })).rejects.toThrow('Secret "db2" failed validation: password');
+    });
+
+    it('should validate values before writing them', async () => {
+      await expect(secretsManager.createSecret('db', { username: 'app' }, { validate: credentialsSchema })).rejects.toBeInstanceOf(SecretValidationError);
+      await expect(secretsManager.updateSecret('db', '{"password":"secret"}', { validate: credentialsSchema })).rejects.toBeInstanceOf(SecretValidationError);
+      expect(secretsManagerMock.calls()).toHaveLength(0);
+    });
+  });
 });
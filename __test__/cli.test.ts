@@ -0,0 +1,141 @@
+import { CreateSecretCommand, DeleteSecretCommand, DescribeSecretCommand, GetSecretValueCommand, ListSecretsCommand, ListSecretVersionIdsCommand, SecretsManagerClient, TagResourceCommand, UntagResourceCommand, UpdateSecretCommand } from '@aws-sdk/client-secrets-manager';
+import { mockClient } from 'aws-sdk-client-mock';
+import { AWSSecretsManager } from '../src/aws-secret-manager';
+import { CliIO, runCli } from '../src/cli';
+
+const secretsManagerMock = mockClient(SecretsManagerClient);
+
+describe('runCli', () => {
+  let secretsManager: AWSSecretsManager;
+  let stdout: string[];
+  let stderr: string[];
+  let stdin: string;
+  let io: CliIO;
+
+  const run = (...argv: string[]) => runCli(argv, io, secretsManager);
+
+  beforeEach(() => {
+    secretsManager = new AWSSecretsManager();
+    secretsManagerMock.reset();
+    stdout = [];
+    stderr = [];
+    stdin = '';
+    io = {
+      stdout: text => stdout.push(text),
+      stderr: text => stderr.push(text),
+      readStdin: async () => stdin,
+    };
+  });
+
+  describe('get', () => {
+    beforeEach(() => {
+      secretsManagerMock.on(GetSecretValueCommand).resolves({ SecretString: JSON.stringify({ username: 'app', password: 'db-pass' }) });
+    });
+
+    it('should mask values by default', async () => {
+      expect(await run('get', 'prod/db')).toBe(0);
+      expect(stdout.join('\n')).not.toContain('db-pass');
+      expect(stdout[0].split('\n')).toEqual(['KEY       VALUE', 'username  ********', 'password  ********']);
+    });
+
+    it('should print a single key in clear text with --reveal', async () => {
+      expect(await run('get', 'prod/db', '--key', 'password', '--reveal')).toBe(0);
+      expect(stdout).toEqual(['db-pass']);
+    });
+
+    it('should print JSON output and pass the version stage', async () => {
+      await run('get', 'prod/db', '--output', 'json', '--reveal', '--version-stage', 'AWSPREVIOUS');
+
+      expect(JSON.parse(stdout[0])).toEqual({ username: 'app', password: 'db-pass' });
+      expect(secretsManagerMock.commandCalls(GetSecretValueCommand)[0].args[0].input).toEqual({ SecretId: 'prod/db', VersionStage: 'AWSPREVIOUS' });
+    });
+
+    it('should fail when the key does not exist', async () => {
+      expect(await run('get', 'prod/db', '--key', 'host')).toBe(1);
+      expect(stderr).toEqual(['Error: Secret "prod/db" has no key "host".']);
+    });
+  });
+
+  describe('put', () => {
+    it('should create a missing secret from stdin', async () => {
+      secretsManagerMock.on(DescribeSecretCommand).rejects({ name: 'ResourceNotFoundException', message: 'not found' });
+      secretsManagerMock.on(CreateSecretCommand).resolves({ ARN: 'arn:new' });
+      stdin = '{"token":"abc"}\n';
+
+      expect(await run('put', 'prod/api', '-', '--description', 'API token')).toBe(0);
+      expect(secretsManagerMock.commandCalls(CreateSecretCommand)[0].args[0].input).toMatchObject({
+        Name: 'prod/api',
+        SecretString: '{"token":"abc"}',
+        Description: 'API token',
+      });
+      expect(stdout).toEqual(['Secret "prod/api" created (arn:new)']);
+    });
+
+    it('should update an existing secret from an argument', async () => {
+      secretsManagerMock.on(DescribeSecretCommand).resolves({ Name: 'prod/api' });
+      secretsManagerMock.on(UpdateSecretCommand).resolves({ ARN: 'arn:existing' });
+
+      expect(await run('put', 'prod/api', 'new-value')).toBe(0);
+      expect(secretsManagerMock.commandCalls(UpdateSecretCommand)[0].args[0].input).toMatchObject({ SecretId: 'prod/api', SecretString: 'new-value' });
+      expect(secretsManagerMock.commandCalls(CreateSecretCommand)).toHaveLength(0);
+    });
+
+    it('should refuse an empty value', async () => {
+      expect(await run('put', 'prod/api')).toBe(2);
+      expect(stderr[0]).toContain('No secret value given');
+    });
+  });
+
+  it('should schedule a deletion with a recovery window', async () => {
+    secretsManagerMock.on(DeleteSecretCommand).resolves({ Name: 'prod/api', DeletionDate: new Date('2026-11-01T00:00:00Z') });
+
+    expect(await run('delete', 'prod/api', '--recovery-days', '7')).toBe(0);
+    expect(secretsManagerMock.commandCalls(DeleteSecretCommand)[0].args[0].input).toMatchObject({ SecretId: 'prod/api', RecoveryWindowInDays: 7 });
+    expect(stdout).toEqual(['Scheduled secret "prod/api" for deletion on 2026-11-01T00:00:00.000Z']);
+  });
+
+  it('should list secrets across pages as a table', async () => {
+    secretsManagerMock
+      .on(ListSecretsCommand)
+      .resolvesOnce({ SecretList: [{ Name: 'prod/db', Description: 'Database' }], NextToken: 'page-2' })
+      .resolvesOnce({ SecretList: [{ Name: 'prod/api-key', LastChangedDate: new Date('2026-10-01T00:00:00Z') }] });
+
+    expect(await run('list', '--filter', 'prod/')).toBe(0);
+    expect(stdout[0].split('\n')).toEqual([
+      'NAME          DESCRIPTION  LAST CHANGED',
+      'prod/db       Database',
+      'prod/api-key               2026-10-01T00:00:00.000Z',
+    ]);
+    expect(secretsManagerMock.commandCalls(ListSecretsCommand)[0].args[0].input.Filters).toEqual([{ Key: 'name', Values: ['prod/'] }]);
+  });
+
+  it('should list versions as JSON', async () => {
+    secretsManagerMock.on(ListSecretVersionIdsCommand).resolves({ Versions: [{ VersionId: 'v1', VersionStages: ['AWSCURRENT'] }] });
+
+    await run('versions', 'prod/db', '--output', 'json');
+
+    expect(JSON.parse(stdout[0])).toEqual([{ versionId: 'v1', versionStages: ['AWSCURRENT'], isLatest: true }]);
+  });
+
+  it('should tag and untag a secret', async () => {
+    secretsManagerMock.on(TagResourceCommand).resolves({});
+    secretsManagerMock.on(UntagResourceCommand).resolves({});
+
+    expect(await run('tag', 'prod/db', 'team=backend', 'note=')).toBe(0);
+    expect(await run('untag', 'prod/db', 'note')).toBe(0);
+
+    expect(secretsManagerMock.commandCalls(TagResourceCommand)[0].args[0].input.Tags).toEqual([
+      { Key: 'team', Value: 'backend' },
+      { Key: 'note', Value: '' },
+    ]);
+    expect(secretsManagerMock.commandCalls(UntagResourceCommand)[0].args[0].input.TagKeys).toEqual(['note']);
+  });
+
+  it('should report usage errors with exit code 2', async () => {
+    expect(await run('rename', 'prod/db')).toBe(2);
+    expect(await run('get', 'prod/db', '--unknown')).toBe(2);
+    expect(await run('tag', 'prod/db', 'invalid')).toBe(2);
+    expect(stderr[0]).toContain('Unknown command "rename"');
+    expect(secretsManagerMock.calls()).toHaveLength(0);
+  });
+});
@@ -0,0 +1,79 @@
+import { BatchLoader, ConcurrencyLimiter } from '../src/concurrency';
+
+function deferred<T>() {
+  let resolve!: (value: T) => void;
+  const promise = new Promise<T>(res => (resolve = res));
+  return { promise, resolve };
+}
+
+describe('ConcurrencyLimiter', () => {
+  it('should run at most the limit at once and start queued tasks in order', async () => {
+    const limiter = new ConcurrencyLimiter(2);
+    const gates = [deferred<void>(), deferred<void>(), deferred<void>()];
+    const started: number[] = [];
+
+    const runs = gates.map((gate, index) =>
+      limiter.run(async () => {
+        started.push(index);
+        await gate.promise;
+        return index;
+      }),
+    );
+    await Promise.resolve();
+    expect(started).toEqual([0, 1]);
+
+    gates[0].resolve();
+    await runs[0];
+    await Promise.resolve();
+    expect(started).toEqual([0, 1, 2]);
+
+    gates[1].resolve();
+    gates[2].resolve();
+    expect(await Promise.all(runs)).toEqual([0, 1, 2]);
+  });
+
+  it('should free the slot when a task fails', async () => {
+    const limiter = new ConcurrencyLimiter(1);
+
+    await expect(limiter.run(() => Promise.reject(new Error('boom')))).rejects.toThrow('boom');
+    expect(await limiter.run(() => Promise.resolve('next'))).toBe('next');
+  });
+});
+
+describe('BatchLoader', () => {
+  it('should load keys requested in the same tick with one call and dedupe them', async () => {
+    const loadBatch = jest.fn(async (keys: string[]) => new Map(keys.map(key => [key, key.toUpperCase()] as [string, string])));
+    const loader = new BatchLoader(loadBatch, 10);
+
+    const results = await Promise.all([loader.load('a'), loader.load('b'), loader.load('a')]);
+
+    expect(results).toEqual(['A', 'B', 'A']);
+    expect(loadBatch).toHaveBeenCalledTimes(1);
+    expect(loadBatch).toHaveBeenCalledWith(['a', 'b']);
+  });
+
+  it('should split batches at the maximum size', async () => {
+    const loadBatch = jest.fn(async (keys: string[]) => new Map(keys.map(key => [key, key] as [string, string])));
+    const loader = new BatchLoader(loadBatch, 2);
+
+    await Promise.all(['a', 'b', 'c'].map(key => loader.load(key)));
+
+    expect(loadBatch.mock.calls).toEqual([[['a', 'b']], [['c']]]);
+  });
+
+  it('should reject only the keys that failed', async () => {
+    const loader = new BatchLoader<string, string>(async () => new Map<string, string | Error>([['a', 'A'], ['b', new Error('not found')]]), 10);
+
+    const [a, b, c] = await Promise.allSettled([loader.load('a'), loader.load('b'), loader.load('c')]);
+
+    expect(a).toEqual({ status: 'fulfilled', value: 'A' });
+    expect(b).toEqual({ status: 'rejected', reason: new Error('not found') });
+    expect(c).toEqual({ status: 'rejected', reason: new Error('Batch load returned no result for a requested key') });
+  });
+
+  it('should reject every key when the batch fails', async () => {
+    const loader = new BatchLoader<string, string>(() => Promise.reject(new Error('denied')), 10);
+
+    await expect(Promise.all([loader.load('a'), loader.load('b')])).rejects.toThrow('denied');
+  });
+});
@@ -0,0 +1,113 @@
+import { BatchGetSecretValueCommand, GetSecretValueCommand, SecretsManagerClient } from '@aws-sdk/client-secrets-manager';
+import { mockClient } from 'aws-sdk-client-mock';
+import { AWSSecretsManager } from '../src/aws-secret-manager';
+import { SecretLoadError } from '../src/error';
+import { SecretEnvLoader } from '../src/env-loader';
+
+const secretsManagerMock = mockClient(SecretsManagerClient);
+
+describe('SecretEnvLoader', () => {
+  let secretsManager: AWSSecretsManager;
+
+  beforeEach(() => {
+    secretsManager = new AWSSecretsManager();
+    secretsManagerMock.reset();
+    secretsManagerMock.on(BatchGetSecretValueCommand).resolves({
+      SecretValues: [
+        { Name: 'prod/db', SecretString: JSON.stringify({ username: 'app', password: 'db-pass', port: 5432 }) },
+        { Name: 'prod/api-key', SecretString: '1e3' },
+      ],
+    });
+  });
+
+  it('should map secrets and JSON keys to variables with a single batch request', async () => {
+    const loader = new SecretEnvLoader({ DB_PASSWORD: 'prod/db#password', DB_PORT: 'prod/db#port', API_KEY: 'prod/api-key' }, {}, secretsManager);
+
+    const config = await loader.load();
+
+    expect(config).toEqual({ DB_PASSWORD: 'db-pass', DB_PORT: '5432', API_KEY: '1e3' });
+    expect(Object.isFrozen(config)).toBe(true);
+    expect(secretsManagerMock.commandCalls(BatchGetSecretValueCommand)).toHaveLength(1);
+    expect(secretsManagerMock.commandCalls(BatchGetSecretValueCommand)[0].args[0].input.SecretIdList).toEqual(['prod/db', 'prod/api-key']);
+  });
+
+  it('should expand every key of a JSON secret with a prefix', async () => {
+    const loader = new SecretEnvLoader([{ secretId: 'prod/db', key: '*' }], { prefix: 'APP_' }, secretsManager);
+
+    expect(await loader.load()).toEqual({ APP_USERNAME: 'app', APP_PASSWORD: 'db-pass', APP_PORT: '5432' });
+  });
+
+  it('should report every missing required secret or key at once', async () => {
+    const loader = new SecretEnvLoader(
+      [
+        { secretId: 'prod/db', key: 'host' },
+        { secretId: 'prod/missing' },
+        { secretId: 'prod/optional', required: false },
+      ],
+      {},
+      secretsManager
+    );
+
+    const error = await loader.load().catch(e => e);
+
+    expect(error).toBeInstanceOf(SecretLoadError);
+    expect(error.message).toBe('Failed to load 2 secret value(s): prod/db#host, prod/missing');
+    expect(error.missing).toEqual([
+      { secretId: 'prod/db', key: 'host', reason: 'key not found' },
+      { secretId: 'prod/missing', key: undefined, reason: 'secret not found' },
+    ]);
+  });
+
+  it('should report the error code of secrets the batch could not read', async () => {
+    secretsManagerMock.on(BatchGetSecretValueCommand).resolves({
+      SecretValues: [],
+      Errors: [{ SecretId: 'prod/db', ErrorCode: 'AccessDeniedException', Message: 'Not authorized' }],
+    });
+    const loader = new SecretEnvLoader({ DB_PASSWORD: 'prod/db#password' }, {}, secretsManager);
+
+    const error = await loader.load().catch(e => e);
+
+    expect(error.missing).toEqual([{ secretId: 'prod/db', key: 'password', reason: 'AccessDeniedException' }]);
+  });
+
+  it('should fetch secrets mapped by ARN individually', async () => {
+    const arn = 'arn:aws:secretsmanager:us-east-1:123456789012:secret:prod/token-AbCdEf';
+    secretsManagerMock.on(GetSecretValueCommand, { SecretId: arn }).resolves({ ARN: arn, Name: 'prod/token', SecretString: 'token-value' });
+    const loader = new SecretEnvLoader({ API_KEY: 'prod/api-key', TOKEN: arn }, {}, secretsManager);
+
+    expect(await loader.load()).toEqual({ API_KEY: '1e3', TOKEN: 'token-value' });
+    expect(secretsManagerMock.commandCalls(BatchGetSecretValueCommand)[0].args[0].input.SecretIdList).toEqual(['prod/api-key']);
+  });
+
+  it('should skip optional entries marked with a question mark', async () => {
+    const loader = new SecretEnvLoader({ DB_USER: 'prod/db#username', EXTRA: 'prod/extra?' }, {}, secretsManager);
+
+    expect(await loader.load()).toEqual({ DB_USER: 'app' });
+  });
+
+  it('should keep existing variables by default', async () => {
+    const env: NodeJS.ProcessEnv = { DB_USER: 'existing' };
+    const loader = new SecretEnvLoader({ DB_USER: 'prod/db#username', DB_PASSWORD: 'prod/db#password' }, {}, secretsManager);
+
+    await loader.populateEnv(env);
+
+    expect(env).toEqual({ DB_USER: 'existing', DB_PASSWORD: 'db-pass' });
+  });
+
+  it('should overwrite existing variables when asked to', async () => {
+    const env: NodeJS.ProcessEnv = { DB_USER: 'existing' };
+    const loader = new SecretEnvLoader({ DB_USER: 'prod/db#username' }, { overwrite: 'overwrite' }, secretsManager);
+
+    await loader.populateEnv(env);
+
+    expect(env.DB_USER).toBe('app');
+  });
+
+  it('should refuse to overwrite variables with the error policy', async () => {
+    const env: NodeJS.ProcessEnv = { DB_USER: 'existing' };
+    const loader = new SecretEnvLoader({ DB_USER: 'prod/db#username', DB_PASSWORD: 'prod/db#password' }, { overwrite: 'error' }, secretsManager);
+
+    await expect(loader.populateEnv(env)).rejects.toThrow('Environment variables already set: DB_USER');
+    expect(env).toEqual({ DB_USER: 'existing' });
+  });
+});
@@ -0,0 +1,237 @@
+import { mkdtempSync, readdirSync, readFileSync, rmSync, utimesSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { AWSSecretsManager } from '../src/aws-secret-manager';
+import { InvalidSecretParameterError, SecretAlreadyExistsError, SecretMarkedForDeletionError, SecretNotFoundError, SecretsManagerError } from '../src/error';
+import { FileSecretsBackend } from '../src/file-backend';
+import { InMemorySecretsBackend } from '../src/memory-backend';
+import { ResourcePolicyBuilder } from '../src/resource-policy';
+
+describe('InMemorySecretsBackend', () => {
+  let secretsManager: AWSSecretsManager;
+
+  beforeEach(() => {
+    secretsManager = new AWSSecretsManager({ backend: new InMemorySecretsBackend({ region: 'eu-west-1', accountId: '123456789012' }) });
+  });
+
+  it('should create and read secrets by name or ARN', async () => {
+    const arn = await secretsManager.createSecret('prod/db', { password: 'db-pass' });
+
+    expect(arn).toMatch(/^arn:aws:secretsmanager:eu-west-1:123456789012:secret:prod\/db-[A-Za-z0-9]{6}$/);
+    expect(await secretsManager.getSecret('prod/db')).toEqual({ password: 'db-pass' });
+    expect(await secretsManager.getSecret(arn)).toEqual({ password: 'db-pass' });
+    expect(await secretsManager.getSecret(arn.slice(0, -7))).toEqual({ password: 'db-pass' });
+  });
+
+  it('should store binary secrets as binary', async () => {
+    await secretsManager.createSecret('prod/cert', Buffer.from([1, 2, 3]));
+
+    expect(await secretsManager.getSecret('prod/cert')).toEqual(Buffer.from([1, 2, 3]));
+  });
+
+  it('should raise the same error types as AWS', async () => {
+    await secretsManager.createSecret('prod/db', 'value');
+
+    await expect(secretsManager.getSecret('missing')).rejects.toBeInstanceOf(SecretNotFoundError);
+    await expect(secretsManager.createSecret('prod/db', 'value')).rejects.toBeInstanceOf(SecretAlreadyExistsError);
+    expect(await secretsManager.secretExists('missing')).toBe(false);
+  });
+
+  it('should move AWSCURRENT and AWSPREVIOUS between versions', async () => {
+    await secretsManager.createSecret('prod/db', 'v1');
+    await secretsManager.updateSecret('prod/db', 'v2');
+    await secretsManager.putSecretValue('prod/db', 'v3', { versionStages: ['AWSPENDING'] });
+
+    expect(await secretsManager.getSecret('prod/db')).toBe('v2');
+    expect(await secretsManager.getSecret('prod/db', { versionStage: 'AWSPREVIOUS' })).toBe('v1');
+    expect(await secretsManager.getSecret('prod/db', { versionStage: 'AWSPENDING' })).toBe('v3');
+
+    await secretsManager.rollbackSecret('prod/db');
+
+    expect(await secretsManager.getSecret('prod/db')).toBe('v1');
+    expect(await secretsManager.getSecret('prod/db', { versionStage: 'AWSPREVIOUS' })).toBe('v2');
+    const versions = await secretsManager.getSecretVersions('prod/db');
+    expect(versions.map(version => version.versionStages)).toEqual([['AWSCURRENT'], ['AWSPREVIOUS'], ['AWSPENDING']]);
+  });
+
+  it('should record rotation settings without reporting a version that does not exist', async () => {
+    await secretsManager.createSecret('prod/db', 'v1');
+
+    const result = await secretsManager.configureRotation('prod/db', {
+      lambdaArn: 'arn:aws:lambda:eu-west-1:123456789012:function:rotate',
+      schedule: { automaticallyAfterDays: 30 },
+      rotateImmediately: true,
+    });
+
+    expect(result.versionId).toBeUndefined();
+    expect(await secretsManager.getSecretVersions('prod/db')).toHaveLength(1);
+    expect((await secretsManager.getRotationConfig('prod/db')).enabled).toBe(true);
+  });
+
+  it('should treat a repeated client request token as idempotent', async () => {
+    await secretsManager.createSecret('prod/db', 'v1');
+    const first = await secretsManager.putSecretValue('prod/db', 'v2', { clientRequestToken: 'token-1' });
+    const retried = await secretsManager.putSecretValue('prod/db', 'v2', { clientRequestToken: 'token-1' });
+
+    expect(retried.versionId).toBe(first.versionId);
+    await expect(secretsManager.putSecretValue('prod/db', 'other', { clientRequestToken: 'token-1' })).rejects.toThrow(SecretsManagerError);
+  });
+
+  it('should keep both changes when two patches race', async () => {
+    await secretsManager.createSecret('prod/db', { username: 'app' });
+
+    const results = await Promise.all([secretsManager.patchSecret('prod/db', { password: 'db-pass' }), secretsManager.patchSecret('prod/db', { port: 5432 })]);
+
+    expect(await secretsManager.getSecret('prod/db')).toEqual({ username: 'app', password: 'db-pass', port: 5432 });
+    expect(results.map(result => result.attempts).sort()).toEqual([1, 2]);
+  });
+
+  it('should leave no patch bookkeeping stage behind when patches conflict', async () => {
+    await secretsManager.createSecret('prod/db', { username: 'app' });
+
+    const results = await Promise.allSettled([1, 2, 3, 4, 5].map(n => secretsManager.patchSecret('prod/db', { [`key${n}`]: n })));
+
+    expect(results.some(result => result.status === 'rejected')).toBe(true);
+    const versions = await secretsManager.getSecretVersions('prod/db');
+    expect(versions.filter(version => version.versionStages.includes('PATCH_PENDING'))).toEqual([]);
+  });
+
+  it('should store resource policies and block public ones', async () => {
+    await secretsManager.createSecret('prod/db', 'value');
+    const publicPolicy = new ResourcePolicyBuilder().allow({ principals: '*', actions: ['GetSecretValue'] }).build();
+    const privatePolicy = new ResourcePolicyBuilder().allow({ principals: { aws: '123456789012' }, actions: ['GetSecretValue'] }).build();
+
+    await expect(secretsManager.putResourcePolicy('prod/db', publicPolicy)).rejects.toBeInstanceOf(InvalidSecretParameterError);
+    expect(await secretsManager.validateResourcePolicy(publicPolicy)).toEqual({ valid: false, findings: [{ checkName: 'BROAD_ACCESS', message: 'The resource policy grants access to every principal.' }] });
+
+    await secretsManager.putResourcePolicy('prod/db', privatePolicy);
+    expect((await secretsManager.getResourcePolicy('prod/db')).policy).toEqual(JSON.parse(JSON.stringify(privatePolicy)));
+
+    await secretsManager.deleteResourcePolicy('prod/db');
+    expect((await secretsManager.getResourcePolicy('prod/db')).policy).toBeUndefined();
+  });
+
+  it('should generate passwords for new secrets', async () => {
+    await secretsManager.createSecret('prod/db', { username: 'app' }, { generate: { field: 'password', length: 24, excludePunctuation: true, source: 'aws' } });
+
+    expect((await secretsManager.getSecret('prod/db')).password).toMatch(/^[A-Za-z0-9]{24}$/);
+  });
+
+  it('should filter and paginate listings', async () => {
+    await secretsManager.createSecret('prod/db', 'x', { tags: [{ Key: 'team', Value: 'backend' }] });
+    await secretsManager.createSecret('prod/api', 'x', { tags: [{ Key: 'team', Value: 'web' }] });
+    await secretsManager.createSecret('dev/db', 'x', { tags: [{ Key: 'team', Value: 'backend' }] });
+
+    const page = await secretsManager.listSecrets({ maxResults: 2 });
+    expect(page.secretNames).toEqual(['prod/db', 'prod/api']);
+    expect(await secretsManager.listSecrets({ nextToken: page.nextToken })).toEqual({ secretNames: ['dev/db'], nextToken: undefined });
+
+    expect(await secretsManager.listAllSecrets({ filters: [{ Key: 'name', Values: ['prod/'] }, { Key: 'tag-value', Values: ['backend'] }] })).toEqual(['prod/db']);
+    expect(await secretsManager.listAllSecrets({ filters: [{ Key: 'name', Values: ['!prod/'] }] })).toEqual(['dev/db']);
+    expect(await secretsManager.getTags('prod/api')).toEqual({ team: 'web' });
+  });
+
+  it('should match listing filters case-insensitively', async () => {
+    await secretsManager.createSecret('Prod/DB', 'x', { tags: [{ Key: 'Team', Value: 'Backend' }] });
+    await secretsManager.createSecret('dev/db', 'x');
+
+    expect(await secretsManager.listAllSecrets({ filters: [{ Key: 'name', Values: ['prod/d'] }] })).toEqual(['Prod/DB']);
+    expect(await secretsManager.listAllSecrets({ filters: [{ Key: 'tag-key', Values: ['TEAM'] }, { Key: 'tag-value', Values: ['back'] }] })).toEqual(['Prod/DB']);
+    expect(await secretsManager.listAllSecrets({ filters: [{ Key: 'name', Values: ['!PROD'] }] })).toEqual(['dev/db']);
+  });
+
+  it('should batch get secrets and report missing ones', async () => {
+    await secretsManager.createSecret('prod/db', { password: 'db-pass' });
+
+    const result = await secretsManager.batchGetSecrets({ secretIds: ['prod/db', 'missing'], parse: true });
+
+    expect(result.secrets).toEqual({ 'prod/db': { password: 'db-pass' } });
+    expect(result.errors).toEqual([{ secretId: 'missing', errorCode: 'ResourceNotFoundException', errorMessage: "Secrets Manager can't find the specified secret." }]);
+  });
+
+  it('should keep deleted secrets recoverable for the recovery window', async () => {
+    jest.useFakeTimers({ now: new Date('2026-10-01T00:00:00Z') });
+    try {
+      await secretsManager.createSecret('prod/db', 'value');
+      const deleted = await secretsManager.deleteSecret('prod/db', { recoveryDays: 7 });
+
+      expect(deleted.deletionDate).toEqual(new Date('2026-10-08T00:00:00Z'));
+      await expect(secretsManager.getSecret('prod/db')).rejects.toBeInstanceOf(SecretMarkedForDeletionError);
+      expect(await secretsManager.listAllSecrets()).toEqual([]);
+      expect((await secretsManager.listSecretsPendingDeletion()).map(secret => secret.name)).toEqual(['prod/db']);
+
+      await secretsManager.restoreSecret('prod/db');
+      expect(await secretsManager.getSecret('prod/db')).toBe('value');
+
+      await secretsManager.deleteSecret('prod/db', { recoveryDays: 7 });
+      jest.setSystemTime(new Date('2026-10-08T00:00:01Z'));
+      expect(await secretsManager.secretExists('prod/db')).toBe(false);
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  it('should delete immediately when forced', async () => {
+    await secretsManager.createSecret('prod/db', 'value');
+    await secretsManager.deleteSecret('prod/db', { forceDelete: true });
+
+    await expect(secretsManager.describeSecret('prod/db')).rejects.toBeInstanceOf(SecretNotFoundError);
+    await secretsManager.createSecret('prod/db', 'new');
+  });
+});
+
+describe('FileSecretsBackend', () => {
+  let directory: string;
+  let filePath: string;
+
+  beforeEach(() => {
+    directory = mkdtempSync(join(tmpdir(), 'secrets-backend-'));
+    filePath = join(directory, 'secrets.json');
+  });
+
+  afterEach(() => {
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('should persist encrypted secrets across instances', async () => {
+    const writer = new AWSSecretsManager({ backend: new FileSecretsBackend({ path: filePath, passphrase: 'correct horse' }) });
+    await writer.createSecret('prod/db', { password: 'db-pass' }, { description: 'Database' });
+    await writer.updateSecret('prod/db', { password: 'new-pass' });
+
+    expect(readFileSync(filePath, 'utf8')).not.toContain('pass');
+
+    const reader = new AWSSecretsManager({ backend: new FileSecretsBackend({ path: filePath, passphrase: 'correct horse' }) });
+    expect(await reader.getSecret('prod/db')).toEqual({ password: 'new-pass' });
+    expect(await reader.getSecret('prod/db', { parse: true, versionStage: 'AWSPREVIOUS' })).toEqual({ password: 'db-pass' });
+    expect((await reader.describeSecret('prod/db')).description).toBe('Database');
+  });
+
+  it('should keep the writes of instances sharing the file', async () => {
+    const first = new AWSSecretsManager({ backend: new FileSecretsBackend({ path: filePath, passphrase: 'correct horse' }) });
+    const second = new AWSSecretsManager({ backend: new FileSecretsBackend({ path: filePath, passphrase: 'correct horse' }) });
+
+    await Promise.all([first.createSecret('a', 'value-a'), second.createSecret('b', 'value-b')]);
+
+    expect(await first.listAllSecrets()).toEqual(['a', 'b']);
+    expect(readdirSync(directory)).toEqual(['secrets.json']);
+  });
+
+  it('should take over a lock left behind by a crashed process', async () => {
+    writeFileSync(`${filePath}.lock`, '12345');
+    const old = new Date(Date.now() - 60 * 1000);
+    utimesSync(`${filePath}.lock`, old, old);
+
+    const writer = new AWSSecretsManager({ backend: new FileSecretsBackend({ path: filePath, passphrase: 'correct horse' }) });
+    await writer.createSecret('prod/db', 'value');
+
+    expect(await writer.getSecret('prod/db')).toBe('value');
+  });
+
+  it('should refuse to open the file with the wrong passphrase', async () => {
+    await new AWSSecretsManager({ backend: new FileSecretsBackend({ path: filePath, passphrase: 'correct horse' }) }).createSecret('prod/db', 'value');
+
+    const reader = new AWSSecretsManager({ backend: new FileSecretsBackend({ path: filePath, passphrase: 'wrong' }) });
+
+    await expect(reader.getSecret('prod/db')).rejects.toThrow(`Failed to decrypt secrets file "${filePath}". Check the passphrase.`);
+  });
+});
@@ -0,0 +1,62 @@
+import { consoleLogger, jsonLogger, openTelemetryHooks } from '../src/observability';
+import { OperationEndEvent, OperationStartEvent } from '../src/types';
+
+const start: OperationStartEvent = { operation: 'getSecret', secretId: 'prod/db', cache: 'miss', startTime: 1000 };
+const success: OperationEndEvent = { ...start, durationMs: 12, outcome: 'success', attempts: 1 };
+const failure: OperationEndEvent = { ...start, durationMs: 30, outcome: 'error', attempts: 3, errorName: 'SecretThrottledError', retryable: true, requestId: 'req-1' };
+
+describe('consoleLogger', () => {
+  it('should log one line per operation and errors as errors', () => {
+    const logger = { info: jest.fn(), error: jest.fn() };
+    const hooks = consoleLogger({ logger });
+
+    hooks.onEnd?.(success);
+    hooks.onEnd?.(failure);
+
+    expect(logger.info).toHaveBeenCalledWith('secretsmanager getSecret prod/db success 12ms cache=miss attempts=1');
+    expect(logger.error).toHaveBeenCalledWith('secretsmanager getSecret prod/db error 30ms cache=miss attempts=3 error=SecretThrottledError requestId=req-1');
+  });
+
+  it('should skip successful operations when only errors are logged', () => {
+    const logger = { info: jest.fn(), error: jest.fn() };
+
+    consoleLogger({ logger, errorsOnly: true }).onEnd?.(success);
+
+    expect(logger.info).not.toHaveBeenCalled();
+  });
+});
+
+describe('jsonLogger', () => {
+  it('should log the event as JSON', () => {
+    const logger = { info: jest.fn(), error: jest.fn() };
+
+    jsonLogger({ logger }).onEnd?.(failure);
+
+    expect(JSON.parse(logger.error.mock.calls[0][0])).toEqual({ level: 'error', message: 'secretsmanager operation', ...failure });
+  });
+});
+
+describe('openTelemetryHooks', () => {
+  it('should record a client span per operation', () => {
+    const span = { setAttribute: jest.fn(), setStatus: jest.fn(), end: jest.fn() };
+    const tracer = { startSpan: jest.fn().mockReturnValue(span) };
+
+    const finish = openTelemetryHooks(tracer).onStart?.(start);
+    (finish as (event: OperationEndEvent) => void)(failure);
+
+    expect(tracer.startSpan).toHaveBeenCalledWith('SecretsManager.getSecret', {
+      kind: 2,
+      startTime: 1000,
+      attributes: {
+        'rpc.system': 'aws-api',
+        'rpc.service': 'SecretsManager',
+        'aws.secretsmanager.operation': 'getSecret',
+        'aws.secretsmanager.secret_id': 'prod/db',
+        'aws.secretsmanager.cache': 'miss',
+      },
+    });
+    expect(span.setAttribute).toHaveBeenCalledWith('error.type', 'SecretThrottledError');
+    expect(span.setStatus).toHaveBeenCalledWith({ code: 2, message: 'SecretThrottledError' });
+    expect(span.end).toHaveBeenCalledWith(1030);
+  });
+});
@@ -0,0 +1,58 @@
+import { InvalidSecretParameterError } from '../src/error';
+import { applyJsonPatch, applyMergePatch } from '../src/patch';
+
+describe('applyMergePatch', () => {
+  it('should merge nested objects and remove keys set to null', () => {
+    const document = { username: 'app', password: 'old', options: { ssl: true, timeout: 5 } };
+
+    expect(applyMergePatch(document, { password: 'new', options: { timeout: null, pool: 10 }, legacy: null })).toEqual({
+      username: 'app',
+      password: 'new',
+      options: { ssl: true, pool: 10 },
+    });
+    expect(document.password).toBe('old');
+  });
+
+  it('should replace arrays instead of merging them', () => {
+    expect(applyMergePatch({ hosts: ['a', 'b'] }, { hosts: ['c'] })).toEqual({ hosts: ['c'] });
+  });
+});
+
+describe('applyJsonPatch', () => {
+  const document = { username: 'app', hosts: ['a', 'b'], 'a/b': { '~key': 1 } };
+
+  it('should apply every operation in order without touching the input', () => {
+    const result = applyJsonPatch(document, [
+      { op: 'test', path: '/username', value: 'app' },
+      { op: 'replace', path: '/username', value: 'service' },
+      { op: 'add', path: '/hosts/1', value: 'x' },
+      { op: 'add', path: '/hosts/-', value: 'z' },
+      { op: 'remove', path: '/hosts/0' },
+      { op: 'copy', from: '/username', path: '/owner' },
+      { op: 'move', from: '/a~1b/~0key', path: '/key' },
+    ]);
+
+    expect(result).toEqual({ username: 'service', owner: 'service', hosts: ['x', 'b', 'z'], 'a/b': {}, key: 1 });
+    expect(document).toEqual({ username: 'app', hosts: ['a', 'b'], 'a/b': { '~key': 1 } });
+  });
+
+  it('should name the failing operation without echoing values', () => {
+    const error = (() => {
+      try {
+        applyJsonPatch(document, [{ op: 'test', path: '/username', value: 'hunter2' }]);
+      } catch (e) {
+        return e as Error;
+      }
+    })();
+
+    expect(error).toBeInstanceOf(InvalidSecretParameterError);
+    expect(error?.message).toBe('Patch operation 0 (test /username) failed: value does not match');
+    expect(error?.message).not.toContain('app');
+  });
+
+  it('should reject paths that do not exist', () => {
+    expect(() => applyJsonPatch(document, [{ op: 'remove', path: '/password' }])).toThrow('failed: path does not exist');
+    expect(() => applyJsonPatch(document, [{ op: 'replace', path: '/hosts/5', value: 'x' }])).toThrow('failed: array index is out of bounds');
+    expect(() => applyJsonPatch(document, [{ op: 'add', path: 'username', value: 'x' }])).toThrow("path must be empty or start with '/'");
+  });
+});
@@ -0,0 +1,63 @@
+import { inspect } from 'util';
+import { SecretRedactor, SecretValue, revealAll } from '../src/redaction';
+
+describe('SecretValue', () => {
+  const secret = new SecretValue({ username: 'app', password: 'hunter22' });
+
+  it('should redact every way the value can be printed', () => {
+    expect(String(secret)).toBe('[REDACTED]');
+    expect(`${secret}`).toBe('[REDACTED]');
+    expect(JSON.stringify({ secret })).toBe('{"secret":"[REDACTED]"}');
+    expect(inspect(secret)).toBe('SecretValue [REDACTED]');
+    expect(inspect({ ...secret })).not.toContain('hunter22');
+    expect(Object.keys(secret)).toEqual([]);
+  });
+
+  it('should reveal the value and derive new secrets on request', () => {
+    const password = secret.map(value => value.password);
+
+    expect(secret.reveal()).toEqual({ username: 'app', password: 'hunter22' });
+    expect(password).toBeInstanceOf(SecretValue);
+    expect(password.reveal()).toBe('hunter22');
+  });
+
+  it('should be unwrapped for serialization, also inside objects', () => {
+    expect(revealAll({ username: 'app', password: new SecretValue('hunter22'), hosts: [new SecretValue('db-1')] })).toEqual({
+      username: 'app',
+      password: 'hunter22',
+      hosts: ['db-1'],
+    });
+  });
+});
+
+describe('SecretRedactor', () => {
+  it('should scrub registered values from strings, objects and errors', () => {
+    const redactor = new SecretRedactor().add('{"username":"service-user","password":"hunter22"}').add(new SecretValue('api-token-123'));
+    const error = new Error('login failed for service-user with hunter22');
+
+    expect(redactor.redact('token=api-token-123')).toBe('token=[REDACTED]');
+    expect(redactor.redact({ request: { headers: ['Bearer api-token-123'] }, user: 'service-user' })).toEqual({
+      request: { headers: ['Bearer [REDACTED]'] },
+      user: '[REDACTED]',
+    });
+
+    const redacted = redactor.redact(error);
+    expect(redacted).toBeInstanceOf(Error);
+    expect(redacted.message).toBe('login failed for [REDACTED] with [REDACTED]');
+    expect(redacted.stack).not.toContain('hunter22');
+    expect(error.message).toContain('hunter22');
+  });
+
+  it('should register the base64 and text forms of binary secrets', () => {
+    const redactor = new SecretRedactor().add(Buffer.from('binary-token')).add(Buffer.from([0xff, 0xfe, 0x00, 0x01]));
+
+    expect(redactor.redact(`${Buffer.from('binary-token').toString('base64')} binary-token`)).toBe('[REDACTED] [REDACTED]');
+    expect(redactor.redact('key=//4AAQ==')).toBe('key=[REDACTED]');
+  });
+
+  it('should replace longer secrets first and skip values below the minimum length', () => {
+    const redactor = new SecretRedactor({ replacement: '***', minLength: 3 }).add(['pass', 'password1', 'ok']);
+
+    expect(redactor.redact('password1 pass ok')).toBe('*** *** ok');
+  });
+});
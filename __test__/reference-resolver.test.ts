@@ -0,0 +1,154 @@
+import { BatchGetSecretValueCommand, GetSecretValueCommand, SecretsManagerClient } from '@aws-sdk/client-secrets-manager';
+import { mockClient } from 'aws-sdk-client-mock';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { AWSSecretsManager } from '../src/aws-secret-manager';
+import { SecretReferenceError } from '../src/error';
+import { SecretReferenceResolver, parseReferences } from '../src/reference-resolver';
+
+const secretsManagerMock = mockClient(SecretsManagerClient);
+
+describe('parseReferences', () => {
+  it('should parse every part of a reference', () => {
+    expect(parseReferences('x={{resolve:secretsmanager:prod/db:SecretString:password:AWSPREVIOUS}}')).toEqual([
+      {
+        reference: '{{resolve:secretsmanager:prod/db:SecretString:password:AWSPREVIOUS}}',
+        secretId: 'prod/db',
+        jsonKey: 'password',
+        versionStage: 'AWSPREVIOUS',
+        versionId: undefined,
+      },
+    ]);
+  });
+
+  it('should keep ARN secret IDs intact', () => {
+    const arn = 'arn:aws:secretsmanager:us-east-1:123456789012:secret:prod/db-AbCdEf';
+
+    const [reference] = parseReferences(`{{resolve:secretsmanager:${arn}:SecretString:username}}`);
+
+    expect(reference.secretId).toBe(arn);
+    expect(reference.jsonKey).toBe('username');
+  });
+
+  it('should flag empty secret IDs and value types other than SecretString', () => {
+    const [binary, empty] = parseReferences('{{resolve:secretsmanager:prod/db:SecretBinary}} {{resolve:secretsmanager::SecretString:password}}');
+
+    expect(binary.invalid).toBe('unsupported value type "SecretBinary"');
+    expect(empty.invalid).toBe('missing secret ID');
+  });
+});
+
+describe('SecretReferenceResolver', () => {
+  let resolver: SecretReferenceResolver;
+
+  beforeEach(() => {
+    resolver = new SecretReferenceResolver(new AWSSecretsManager());
+    secretsManagerMock.reset();
+    secretsManagerMock.on(BatchGetSecretValueCommand).resolves({
+      SecretValues: [
+        { Name: 'prod/db', SecretString: JSON.stringify({ username: 'app', password: 'db-pass', port: 5432 }) },
+        { Name: 'prod/api-key', SecretString: 'api-key-value' },
+      ],
+    });
+  });
+
+  it('should resolve nested references with a single batch request', async () => {
+    const config = {
+      db: { url: 'postgres://{{resolve:secretsmanager:prod/db:SecretString:username}}:{{resolve:secretsmanager:prod/db:SecretString:password}}@db/app' },
+      ports: ['{{resolve:secretsmanager:prod/db:SecretString:port}}'],
+      apiKey: '{{resolve:secretsmanager:prod/api-key}}',
+      retries: 3,
+    };
+
+    const resolved = await resolver.resolve(config);
+
+    expect(resolved).toEqual({
+      db: { url: 'postgres://app:db-pass@db/app' },
+      ports: ['5432'],
+      apiKey: 'api-key-value',
+      retries: 3,
+    });
+    expect(config.apiKey).toBe('{{resolve:secretsmanager:prod/api-key}}');
+    expect(secretsManagerMock.commandCalls(BatchGetSecretValueCommand)).toHaveLength(1);
+    expect(secretsManagerMock.commandCalls(BatchGetSecretValueCommand)[0].args[0].input.SecretIdList).toEqual(['prod/db', 'prod/api-key']);
+  });
+
+  it('should leave values other than plain objects and arrays untouched', async () => {
+    const when = new Date(0);
+    const buf = Buffer.from('hi');
+
+    const resolved = await resolver.resolve({ when, buf, apiKey: '{{resolve:secretsmanager:prod/api-key}}' });
+
+    expect(resolved.when).toBe(when);
+    expect(resolved.buf).toBe(buf);
+    expect(resolved.apiKey).toBe('api-key-value');
+  });
+
+  it('should fetch versioned references individually', async () => {
+    secretsManagerMock.on(GetSecretValueCommand).resolves({ SecretString: JSON.stringify({ password: 'old-pass' }) });
+
+    const resolved = await resolver.resolve('{{resolve:secretsmanager:prod/db:SecretString:password:AWSPREVIOUS}}');
+
+    expect(resolved).toBe('old-pass');
+    expect(secretsManagerMock.commandCalls(GetSecretValueCommand)[0].args[0].input).toEqual({ SecretId: 'prod/db', VersionStage: 'AWSPREVIOUS' });
+    expect(secretsManagerMock.commandCalls(BatchGetSecretValueCommand)).toHaveLength(0);
+  });
+
+  it('should report every unresolved reference at once', async () => {
+    const error = await resolver
+      .resolve({
+        host: '{{resolve:secretsmanager:prod/db:SecretString:host}}',
+        token: '{{resolve:secretsmanager:prod/missing}}',
+        cert: '{{resolve:secretsmanager:prod/cert:SecretBinary}}',
+        empty: '{{resolve:secretsmanager::SecretString:password}}',
+      })
+      .catch(e => e);
+
+    expect(error).toBeInstanceOf(SecretReferenceError);
+    expect(error.message).toBe(
+      'Failed to resolve 4 secret reference(s): {{resolve:secretsmanager:prod/db:SecretString:host}}, {{resolve:secretsmanager:prod/missing}}, ' +
+        '{{resolve:secretsmanager:prod/cert:SecretBinary}}, {{resolve:secretsmanager::SecretString:password}}'
+    );
+    expect(error.unresolved).toEqual([
+      { reference: '{{resolve:secretsmanager:prod/db:SecretString:host}}', reason: 'key not found' },
+      { reference: '{{resolve:secretsmanager:prod/missing}}', reason: 'secret not found' },
+      { reference: '{{resolve:secretsmanager:prod/cert:SecretBinary}}', reason: 'unsupported value type "SecretBinary"' },
+      { reference: '{{resolve:secretsmanager::SecretString:password}}', reason: 'missing secret ID' },
+    ]);
+    expect(secretsManagerMock.commandCalls(BatchGetSecretValueCommand)[0].args[0].input.SecretIdList).toEqual(['prod/db', 'prod/missing']);
+  });
+
+  describe('resolveFile', () => {
+    let directory: string;
+
+    beforeEach(() => {
+      directory = mkdtempSync(join(tmpdir(), 'secret-references-'));
+    });
+
+    afterEach(() => {
+      rmSync(directory, { recursive: true, force: true });
+    });
+
+    it('should resolve references in a JSON file', async () => {
+      const file = join(directory, 'config.json');
+      writeFileSync(file, JSON.stringify({ apiKey: '{{resolve:secretsmanager:prod/api-key}}' }));
+
+      expect(await resolver.resolveFile(file)).toEqual({ apiKey: 'api-key-value' });
+    });
+
+    it('should resolve references in a .env file', async () => {
+      const file = join(directory, '.env.production');
+      writeFileSync(file, ['# database', 'DB_USER={{resolve:secretsmanager:prod/db:SecretString:username}}', 'export API_KEY="{{resolve:secretsmanager:prod/api-key}}"', 'REGION=eu-west-1'].join('\n'));
+
+      expect(await resolver.resolveFile(file)).toEqual({ DB_USER: 'app', API_KEY: 'api-key-value', REGION: 'eu-west-1' });
+    });
+
+    it('should reject unsupported file types', async () => {
+      const file = join(directory, 'config.yaml');
+      writeFileSync(file, 'apiKey: x');
+
+      await expect(resolver.resolveFile(file)).rejects.toThrow('Unsupported file type');
+    });
+  });
+});
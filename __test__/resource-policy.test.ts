@@ -0,0 +1,41 @@
+import { InvalidSecretParameterError } from '../src/error';
+import { ResourcePolicyBuilder, serializePolicy } from '../src/resource-policy';
+
+describe('ResourcePolicyBuilder', () => {
+  it('should build statements with prefixed actions and a default resource', () => {
+    const policy = new ResourcePolicyBuilder()
+      .allow({ sid: 'AppRead', principals: { aws: 'arn:aws:iam::123456789012:role/app' }, actions: ['GetSecretValue', 'secretsmanager:DescribeSecret'] })
+      .deny({ principals: '*', actions: ['*'], conditions: { StringNotEquals: { 'aws:PrincipalAccount': '123456789012' } } })
+      .build();
+
+    expect(JSON.parse(serializePolicy(policy))).toEqual({
+      Version: '2012-10-17',
+      Statement: [
+        {
+          Sid: 'AppRead',
+          Effect: 'Allow',
+          Principal: { AWS: 'arn:aws:iam::123456789012:role/app' },
+          Action: ['secretsmanager:GetSecretValue', 'secretsmanager:DescribeSecret'],
+          Resource: '*',
+        },
+        {
+          Effect: 'Deny',
+          Principal: '*',
+          Action: ['*'],
+          Resource: '*',
+          Condition: { StringNotEquals: { 'aws:PrincipalAccount': '123456789012' } },
+        },
+      ],
+    });
+  });
+
+  it('should reject statements without principals or actions', () => {
+    expect(() => new ResourcePolicyBuilder().allow({ principals: {}, actions: ['GetSecretValue'] })).toThrow('A policy statement needs at least one principal.');
+    expect(() => new ResourcePolicyBuilder().allow({ principals: '*', actions: [] })).toThrow(InvalidSecretParameterError);
+    expect(() => new ResourcePolicyBuilder().build()).toThrow('A resource policy needs at least one statement.');
+  });
+
+  it('should pass policy strings through unchanged', () => {
+    expect(serializePolicy('{"Version":"2012-10-17","Statement":[]}')).toBe('{"Version":"2012-10-17","Statement":[]}');
+  });
+});
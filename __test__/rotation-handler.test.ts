@@ -0,0 +1,156 @@
+import { DescribeSecretCommand, GetSecretValueCommand, PutSecretValueCommand, SecretsManagerClient, UpdateSecretVersionStageCommand } from '@aws-sdk/client-secrets-manager';
+import { mockClient } from 'aws-sdk-client-mock';
+import { AWSSecretsManager } from '../src/aws-secret-manager';
+import { SecretsManagerError } from '../src/error';
+import { generateLocalPassword } from '../src/password';
+import { SecretRotationHandler } from '../src/rotation-handler';
+
+const secretsManagerMock = mockClient(SecretsManagerClient);
+
+const SECRET_ID = 'db-credentials';
+const TOKEN = 'new-version';
+
+describe('SecretRotationHandler', () => {
+  let apply: jest.Mock;
+  let test: jest.Mock;
+  let handler: SecretRotationHandler;
+
+  const describeWith = (stages: Record<string, string[]>, enabled = true) => {
+    secretsManagerMock.on(DescribeSecretCommand).resolves({
+      RotationEnabled: enabled,
+      VersionIdsToStages: stages,
+    });
+  };
+
+  beforeEach(() => {
+    secretsManagerMock.reset();
+    apply = jest.fn();
+    test = jest.fn();
+    handler = new SecretRotationHandler({ apply, test, password: { length: 16, excludePunctuation: true } }, new AWSSecretsManager());
+  });
+
+  describe('createSecret', () => {
+    it('should generate and stage a pending version', async () => {
+      describeWith({ 'old-version': ['AWSCURRENT'], [TOKEN]: ['AWSPENDING'] });
+      secretsManagerMock.on(GetSecretValueCommand, { VersionStage: 'AWSCURRENT' }).resolves({
+        SecretString: JSON.stringify({ username: 'app', password: 'old' }),
+      });
+      secretsManagerMock.on(GetSecretValueCommand, { VersionId: TOKEN }).rejects({
+        name: 'ResourceNotFoundException',
+        message: "Secrets Manager can't find the specified secret value for VersionId",
+      });
+      secretsManagerMock.on(PutSecretValueCommand).resolves({});
+
+      await handler.handle({ SecretId: SECRET_ID, ClientRequestToken: TOKEN, Step: 'createSecret' });
+
+      const putCalls = secretsManagerMock.commandCalls(PutSecretValueCommand);
+      expect(putCalls).toHaveLength(1);
+      const input = putCalls[0].args[0].input;
+      expect(input).toMatchObject({ SecretId: SECRET_ID, ClientRequestToken: TOKEN, VersionStages: ['AWSPENDING'] });
+      const pending = JSON.parse(input.SecretString as string);
+      expect(pending.username).toBe('app');
+      expect(pending.password).toMatch(/^[A-Za-z0-9]{16}$/);
+    });
+
+    it('should not create a new version when the pending version already exists', async () => {
+      describeWith({ 'old-version': ['AWSCURRENT'], [TOKEN]: ['AWSPENDING'] });
+      secretsManagerMock.on(GetSecretValueCommand).resolves({ SecretString: '{"password":"pending"}' });
+
+      await handler.handle({ SecretId: SECRET_ID, ClientRequestToken: TOKEN, Step: 'createSecret' });
+
+      expect(secretsManagerMock.commandCalls(PutSecretValueCommand)).toHaveLength(0);
+    });
+
+    it('should use a custom generator', async () => {
+      describeWith({ 'old-version': ['AWSCURRENT'], [TOKEN]: ['AWSPENDING'] });
+      secretsManagerMock.on(GetSecretValueCommand, { VersionStage: 'AWSCURRENT' }).resolves({ SecretString: '{"apiKey":"old"}' });
+      secretsManagerMock.on(GetSecretValueCommand, { VersionId: TOKEN }).rejects({ name: 'ResourceNotFoundException', message: 'not found' });
+      secretsManagerMock.on(PutSecretValueCommand).resolves({});
+
+      handler = new SecretRotationHandler({ apply, test, generate: () => ({ apiKey: 'new' }) }, new AWSSecretsManager());
+      await handler.handle({ SecretId: SECRET_ID, ClientRequestToken: TOKEN, Step: 'createSecret' });
+
+      expect(secretsManagerMock.commandCalls(PutSecretValueCommand)[0].args[0].input.SecretString).toBe('{"apiKey":"new"}');
+    });
+  });
+
+  describe('setSecret and testSecret', () => {
+    it('should pass the pending value to the callbacks', async () => {
+      describeWith({ 'old-version': ['AWSCURRENT'], [TOKEN]: ['AWSPENDING'] });
+      secretsManagerMock.on(GetSecretValueCommand, { VersionId: TOKEN, VersionStage: 'AWSPENDING' }).resolves({ SecretString: '{"password":"pending"}' });
+
+      await handler.handle({ SecretId: SECRET_ID, ClientRequestToken: TOKEN, Step: 'setSecret' });
+      await handler.handle({ SecretId: SECRET_ID, ClientRequestToken: TOKEN, Step: 'testSecret' });
+
+      expect(apply).toHaveBeenCalledWith({ password: 'pending' }, expect.objectContaining({ secretId: SECRET_ID, token: TOKEN }));
+      expect(test).toHaveBeenCalledWith({ password: 'pending' }, expect.objectContaining({ secretId: SECRET_ID, token: TOKEN }));
+    });
+  });
+
+  describe('finishSecret', () => {
+    it('should move AWSCURRENT to the pending version', async () => {
+      describeWith({ 'old-version': ['AWSCURRENT'], [TOKEN]: ['AWSPENDING'] });
+      secretsManagerMock.on(UpdateSecretVersionStageCommand).resolves({});
+
+      await handler.handle({ SecretId: SECRET_ID, ClientRequestToken: TOKEN, Step: 'finishSecret' });
+
+      expect(secretsManagerMock.commandCalls(UpdateSecretVersionStageCommand)[0].args[0].input).toEqual({
+        SecretId: SECRET_ID,
+        VersionStage: 'AWSCURRENT',
+        MoveToVersionId: TOKEN,
+        RemoveFromVersionId: 'old-version',
+      });
+    });
+
+    it('should do nothing when the version is already current', async () => {
+      describeWith({ 'old-version': ['AWSPREVIOUS'], [TOKEN]: ['AWSCURRENT', 'AWSPENDING'] });
+
+      await handler.handle({ SecretId: SECRET_ID, ClientRequestToken: TOKEN, Step: 'finishSecret' });
+
+      expect(secretsManagerMock.commandCalls(UpdateSecretVersionStageCommand)).toHaveLength(0);
+    });
+  });
+
+  describe('validation', () => {
+    it('should reject secrets without rotation enabled', async () => {
+      describeWith({ [TOKEN]: ['AWSPENDING'] }, false);
+
+      await expect(handler.handle({ SecretId: SECRET_ID, ClientRequestToken: TOKEN, Step: 'createSecret' })).rejects.toThrow('is not enabled for rotation');
+    });
+
+    it('should reject unknown versions', async () => {
+      describeWith({ 'old-version': ['AWSCURRENT'] });
+
+      await expect(handler.handle({ SecretId: SECRET_ID, ClientRequestToken: TOKEN, Step: 'setSecret' })).rejects.toThrow(SecretsManagerError);
+    });
+
+    it('should reject versions that are not pending', async () => {
+      describeWith({ 'old-version': ['AWSCURRENT'], [TOKEN]: ['AWSPREVIOUS'] });
+
+      await expect(handler.handle({ SecretId: SECRET_ID, ClientRequestToken: TOKEN, Step: 'setSecret' })).rejects.toThrow('is not set as AWSPENDING');
+    });
+  });
+});
+
+describe('generateLocalPassword', () => {
+  it('should honour length and exclusions', () => {
+    const password = generateLocalPassword({ length: 40, excludePunctuation: true, excludeCharacters: 'abc' });
+
+    expect(password).toHaveLength(40);
+    expect(password).toMatch(/^[d-zA-Z0-9]+$/);
+  });
+
+  it('should include every character type by default', () => {
+    const password = generateLocalPassword();
+
+    expect(password).toHaveLength(32);
+    expect(password).toMatch(/[a-z]/);
+    expect(password).toMatch(/[A-Z]/);
+    expect(password).toMatch(/[0-9]/);
+    expect(password).toMatch(/[^A-Za-z0-9]/);
+  });
+
+  it('should throw when no characters are available', () => {
+    expect(() => generateLocalPassword({ excludeLowercase: true, excludeUppercase: true, excludeNumbers: true, excludePunctuation: true })).toThrow(SecretsManagerError);
+  });
+});
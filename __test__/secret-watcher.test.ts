@@ -0,0 +1,114 @@
+import { DescribeSecretCommand, GetSecretValueCommand, SecretsManagerClient } from '@aws-sdk/client-secrets-manager';
+import { mockClient } from 'aws-sdk-client-mock';
+import { AWSSecretsManager } from '../src/aws-secret-manager';
+import { InMemorySecretsBackend } from '../src/memory-backend';
+import { SecretWatchErrorEvent } from '../src/types';
+
+const secretsManagerMock = mockClient(SecretsManagerClient);
+
+describe('SecretWatcher', () => {
+  beforeEach(() => {
+    secretsManagerMock.reset();
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should call back only when AWSCURRENT moves to a new version', async () => {
+    const secretsManager = new AWSSecretsManager({ backend: new InMemorySecretsBackend() });
+    await secretsManager.createSecret('prod/db', { password: 'old-pass' });
+    const callback = jest.fn();
+    const onChange = jest.fn();
+
+    const watcher = secretsManager.watchSecret('prod/db', callback, { interval: 1000 });
+    watcher.on('change', onChange);
+    await jest.advanceTimersByTimeAsync(0);
+    const initialVersion = watcher.versionId;
+
+    await jest.advanceTimersByTimeAsync(3000);
+    expect(callback).not.toHaveBeenCalled();
+
+    const { versionId } = await secretsManager.putSecretValue('prod/db', { password: 'new-pass' });
+    await jest.advanceTimersByTimeAsync(1000);
+
+    const change = { secretId: 'prod/db', value: { password: 'new-pass' }, versionId, previousVersionId: initialVersion };
+    expect(callback).toHaveBeenCalledTimes(1);
+    expect(callback).toHaveBeenCalledWith(change);
+    expect(onChange).toHaveBeenCalledWith(change);
+    expect(watcher.versionId).toBe(versionId);
+    watcher.unsubscribe();
+  });
+
+  it('should back off while checks fail and reset once they succeed', async () => {
+    const secretsManager = new AWSSecretsManager();
+    const errors: SecretWatchErrorEvent[] = [];
+    secretsManagerMock
+      .on(DescribeSecretCommand)
+      .resolvesOnce({ VersionIdsToStages: { v1: ['AWSCURRENT'] } })
+      .rejectsOnce({ name: 'ThrottlingException', message: 'Rate exceeded' })
+      .rejectsOnce({ name: 'ThrottlingException', message: 'Rate exceeded' })
+      .resolves({ VersionIdsToStages: { v1: ['AWSCURRENT'] } });
+
+    const watcher = secretsManager.watchSecret('prod/db', jest.fn(), { interval: 1000 });
+    watcher.on('error', event => errors.push(event));
+
+    await jest.advanceTimersByTimeAsync(1000);
+    expect(errors.map(event => [event.failures, event.nextCheckIn])).toEqual([[1, 2000]]);
+
+    await jest.advanceTimersByTimeAsync(2000);
+    expect(errors.map(event => [event.failures, event.nextCheckIn])).toEqual([
+      [1, 2000],
+      [2, 4000],
+    ]);
+
+    await jest.advanceTimersByTimeAsync(4000);
+    await jest.advanceTimersByTimeAsync(1000);
+    expect(secretsManagerMock.commandCalls(DescribeSecretCommand)).toHaveLength(5);
+    expect(errors).toHaveLength(2);
+    watcher.unsubscribe();
+  });
+
+  it('should retry a failed callback on the next check', async () => {
+    const secretsManager = new AWSSecretsManager();
+    secretsManagerMock
+      .on(DescribeSecretCommand)
+      .resolvesOnce({ VersionIdsToStages: { v1: ['AWSCURRENT'] } })
+      .resolves({ VersionIdsToStages: { v1: ['AWSPREVIOUS'], v2: ['AWSCURRENT'] } });
+    secretsManagerMock.on(GetSecretValueCommand, { SecretId: 'prod/db', VersionId: 'v2' }).resolves({ SecretString: 'new-pass', VersionId: 'v2' });
+    const callback = jest.fn().mockRejectedValueOnce(new Error('pool refused the password')).mockResolvedValue(undefined);
+    const onError = jest.fn();
+
+    const watcher = secretsManager.watchSecret('prod/db', callback, { interval: 1000, parse: false });
+    watcher.on('error', onError);
+    await jest.advanceTimersByTimeAsync(1000);
+    expect(onError).toHaveBeenCalledTimes(1);
+    expect(watcher.versionId).toBe('v1');
+
+    await jest.advanceTimersByTimeAsync(2000);
+    expect(callback).toHaveBeenCalledTimes(2);
+    expect(callback).toHaveBeenLastCalledWith({ secretId: 'prod/db', value: 'new-pass', versionId: 'v2', previousVersionId: 'v1' });
+    expect(watcher.versionId).toBe('v2');
+    watcher.unsubscribe();
+  });
+
+  it('should stop checking once unsubscribed or aborted', async () => {
+    const secretsManager = new AWSSecretsManager();
+    secretsManagerMock.on(DescribeSecretCommand).resolves({ VersionIdsToStages: { v1: ['AWSCURRENT'] } });
+    const controller = new AbortController();
+    const onStop = jest.fn();
+
+    const watcher = secretsManager.watchSecret('prod/db', jest.fn(), { interval: 1000 });
+    const aborted = secretsManager.watchSecret('prod/api', jest.fn(), { interval: 1000, signal: controller.signal });
+    aborted.on('stop', onStop);
+    await jest.advanceTimersByTimeAsync(0);
+
+    watcher.unsubscribe();
+    controller.abort();
+    await jest.advanceTimersByTimeAsync(5000);
+
+    expect(secretsManagerMock.commandCalls(DescribeSecretCommand)).toHaveLength(2);
+    expect(onStop).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,84 @@
+import { SecretValidationError } from '../src/error';
+import { assertValidSecret, parseStrict, validateJsonSchema } from '../src/validation';
+
+describe('validateJsonSchema', () => {
+  const schema = {
+    type: 'object' as const,
+    required: ['username', 'password', 'port'],
+    properties: {
+      username: { type: 'string' as const, minLength: 1 },
+      password: { type: 'string' as const, minLength: 12 },
+      port: { type: 'integer' as const, minimum: 1, maximum: 65535 },
+      engine: { enum: ['postgres', 'mysql'] },
+    },
+    additionalProperties: false,
+  };
+
+  it('should accept a valid value', () => {
+    expect(validateJsonSchema({ username: 'app', password: 'correct-horse-battery', port: 5432 }, schema)).toEqual([]);
+  });
+
+  it('should report every offending field', () => {
+    const issues = validateJsonSchema({ username: '', password: 'short', engine: 'oracle', extra: true }, schema);
+
+    expect(issues.map(issue => issue.path)).toEqual(['port', 'username', 'password', 'engine', 'extra']);
+  });
+
+  it('should validate nested arrays and objects', () => {
+    const issues = validateJsonSchema(
+      { hosts: [{ name: 'a' }, { name: 1 }] },
+      { type: 'object', properties: { hosts: { type: 'array', items: { type: 'object', properties: { name: { type: 'string' } } } } } }
+    );
+
+    expect(issues).toEqual([{ path: 'hosts.1.name', message: 'must be of type string' }]);
+  });
+});
+
+describe('assertValidSecret', () => {
+  it('should never include values in the error', () => {
+    const secretValue = { password: 'hunter2-super-secret' };
+
+    const error = (() => {
+      try {
+        assertValidSecret(secretValue, { type: 'object', properties: { password: { type: 'string', minLength: 64, pattern: '^x' } } }, { operation: 'getSecret', secretId: 'db' });
+      } catch (e) {
+        return e as SecretValidationError;
+      }
+    })();
+
+    expect(error).toBeInstanceOf(SecretValidationError);
+    expect(error!.fields).toEqual(['password', 'password']);
+    expect(error!.message).toBe('Secret "db" failed validation: password');
+    expect(JSON.stringify({ message: error!.message, issues: error!.issues })).not.toContain('hunter2');
+  });
+
+  it('should support type guards', () => {
+    const isString = (value: unknown): value is string => typeof value === 'string';
+
+    expect(assertValidSecret('value', isString, { operation: 'getSecret' })).toBe('value');
+    expect(() => assertValidSecret(42, isString, { operation: 'getSecret' })).toThrow(SecretValidationError);
+  });
+
+  it('should support Zod-like adapters and drop their messages', () => {
+    expect.assertions(2);
+    const adapter = {
+      safeParse: (value: unknown) =>
+        typeof value === 'object' && value !== null && 'apiKey' in value
+          ? { success: true as const, data: { apiKey: String((value as { apiKey: unknown }).apiKey) } }
+          : { success: false as const, error: { issues: [{ path: ['apiKey'], code: 'invalid_type', message: 'received "leaked"' }] } },
+    };
+
+    expect(assertValidSecret({ apiKey: 123 }, adapter, { operation: 'getSecret' })).toEqual({ apiKey: '123' });
+    try {
+      assertValidSecret({ other: 'leaked' }, adapter, { operation: 'getSecret' });
+    } catch (error) {
+      expect((error as SecretValidationError).issues).toEqual([{ path: 'apiKey', message: 'is invalid (invalid_type)' }]);
+    }
+  });
+});
+
+describe('parseStrict', () => {
+  it('should reject non-JSON without echoing the value', () => {
+    expect(() => parseStrict('plain-secret-value', { operation: 'getSecret', secretId: 'api' })).toThrow(new SecretValidationError('Secret "api" is not valid JSON.'));
+  });
+});
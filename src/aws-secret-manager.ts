@@ -1,10 +1,36 @@
-import { BatchGetSecretValueCommand, CreateSecretCommand, DeleteSecretCommand, DescribeSecretCommand, Filter, FilterNameStringType, GetSecretValueCommand, ListSecretsCommand, ListSecretVersionIdsCommand, SecretsManagerClient, SecretsManagerClientConfig, TagResourceCommand, UpdateSecretCommand } from '@aws-sdk/client-secrets-manager';
-import { SecretsManagerError } from './error';
-import { AWSSecretsManagerConfig, BatchGetSecretOptions, BatchGetSecretResult, DeleteSecretOptions, GetSecretOptions, ListAllSecretOptions, SecretOptions } from './types';
-import { convertFilters, parseSecretValue } from './utils';
+import { BatchGetSecretValueCommand, CancelRotateSecretCommand, CreateSecretCommand, DeleteResourcePolicyCommand, DeleteSecretCommand, DescribeSecretCommand, Filter, FilterNameStringType, GetRandomPasswordCommand, GetResourcePolicyCommand, GetSecretValueCommand, ListSecretsCommand, ListSecretVersionIdsCommand, PutResourcePolicyCommand, PutSecretValueCommand, RemoveRegionsFromReplicationCommand, ReplicateSecretToRegionsCommand, RestoreSecretCommand, RotateSecretCommand, SecretsManagerClient, SecretsManagerClientConfig, StopReplicationToReplicaCommand, TagResourceCommand, UntagResourceCommand, UpdateSecretCommand, UpdateSecretVersionStageCommand, ValidateResourcePolicyCommand } from '@aws-sdk/client-secrets-manager';
+import { randomUUID } from 'crypto';
+import { SecretCache } from './cache';
+import { BatchLoader, ConcurrencyLimiter } from './concurrency';
+import { InvalidSecretParameterError, SecretConflictError, SecretMarkedForDeletionError, SecretOperationAbortedError, SecretsManagerError, toSecretsManagerError } from './error';
+import { generateLocalPassword } from './password';
+import { applyJsonPatch, applyMergePatch } from './patch';
+import { serializePolicy } from './resource-policy';
+import { SecretRedactor, SecretValue, revealAll } from './redaction';
+import { withRetry } from './retry';
+import { SecretWatcher } from './secret-watcher';
+import { assertValidSecret, parseStrict } from './validation';
+import { AWSSecretsManagerConfig, BatchGetSecretOptions, BatchGetSecretResult, CacheStats, CacheStatus, ConfigureRotationOptions, DeleteSecretOptions, DeleteSecretResult, GeneratePasswordOptions, GenerateSecretValueOptions, GetSecretOptions, GetSecretVersionsOptions, JsonPatchOperation, ListAllSecretOptions, ListSecretsResult, ListSecretVersionsOptions, MergePatch, OperationEndEvent, OperationHooks, OperationStartEvent, PaginationOptions, PatchSecretOptions, PatchSecretResult, PolicyDocument, PolicyValidationResult, PutResourcePolicyOptions, PutSecretValueOptions, PutSecretValueResult, ReplicaRegion, ReplicateSecretOptions, ReplicationResult, ReplicationStatusReport, ResourcePolicy, RetryOptions, RotateSecretOptions, RotationConfig, RotationResult, SecretChangeEvent, SecretMetadata, SecretMetadataUpdate, SecretOptions, SecretPayload, SecretVersion, SecretVersionsResult, TagQuery, TagSyncResult, UpdateVersionStageOptions, ValidateResourcePolicyOptions, VersionStageMoveResult, WatchSecretOptions } from './types';
+import { chunk, convertFilters, parseSecretValue, tagsToRecord, toReplicaStatus, toSecretMetadata, toSecretValueInput } from './utils';
+
+const BATCH_GET_SECRET_ID_LIMIT = 20;
+// Temporary label that holds a patched version until AWSCURRENT is moved onto it
+const PATCH_VERSION_STAGE = 'PATCH_PENDING';
 
 export class AWSSecretsManager {
   private client: SecretsManagerClient;
+  private clientConfig: SecretsManagerClientConfig;
+  private regionClients = new Map<string, SecretsManagerClient>();
+  private failoverRegions: string[];
+  private hasBackend: boolean;
+  private hooks: OperationHooks[];
+  private redactor?: SecretRedactor;
+  private coalesceReads: boolean;
+  private inFlight = new Map<string, Promise<SecretPayload>>();
+  private limiter?: ConcurrencyLimiter;
+  private batchLoader?: BatchLoader<string, SecretPayload>;
+  private cache?: SecretCache<SecretPayload>;
+  private retry?: RetryOptions;
 
   /**
    * Creates an instance of AWSSecretsManager.
@@ -24,55 +50,64 @@ export class AWSSecretsManager {
       clientConfig.credentials = config.credentials;
     }
 
-    this.client = new SecretsManagerClient(clientConfig);
+    if (config.retry) {
+      // The retry policy replaces the SDK's built-in retries
+      clientConfig.maxAttempts = 1;
+      this.retry = config.retry;
+    }
+
+    // A backend receives the same SDK commands as the AWS client, so every method works unchanged
+    this.client = config.backend ? (config.backend as unknown as SecretsManagerClient) : new SecretsManagerClient(clientConfig);
+    this.clientConfig = clientConfig;
+    this.failoverRegions = config.failoverRegions || [];
+    this.hasBackend = Boolean(config.backend);
+    this.hooks = config.hooks ? ([] as OperationHooks[]).concat(config.hooks) : [];
+    this.redactor = config.redactor;
+    this.coalesceReads = config.coalesceReads ?? true;
+    if (config.maxConcurrency !== undefined) {
+      this.limiter = new ConcurrencyLimiter(config.maxConcurrency);
+    }
+    if (config.batchReads) {
+      this.batchLoader = new BatchLoader(secretIds => this.loadSecretBatch(secretIds), BATCH_GET_SECRET_ID_LIMIT);
+    }
+
+    if (config.cache) {
+      this.cache = new SecretCache(config.cache);
+    }
   }
 
   /**
    * Retrieves a secret value by its name. Can automatically parse JSON strings.
+   * Binary secrets are returned as a Buffer.
    * @param {string} secretName - Name or ARN of the secret to retrieve
-   * @param {GetSecretOptions} options - Optional settings like version and parsing preference
-   * @returns {Promise<T>} The secret value, parsed if requested
+   * @param {GetSecretOptions<T>} options - Optional settings like version, parsing preference, a validator and redaction
+   * @returns {Promise<T | SecretValue<T>>} The secret value, parsed and validated if requested, wrapped in a SecretValue with `redact`
    */
-  async getSecret<T = any>(secretName: string, options: GetSecretOptions = { parse: true }): Promise<T> {
-    try {
-      const command = new GetSecretValueCommand({
-        SecretId: secretName,
-        VersionId: options.version,
-      });
+  getSecret<T = any>(secretName: string, options: GetSecretOptions<T> & { redact: true }): Promise<SecretValue<T>>;
+  getSecret<T = any>(secretName: string, options?: GetSecretOptions<T>): Promise<T>;
+  async getSecret<T = any>(secretName: string, options: GetSecretOptions<T> = { parse: true }): Promise<T | SecretValue<T>> {
+    const payload = await this.getSecretPayload(secretName, options);
+    const decoded = payload.type === 'binary' ? payload.value : this.decodeSecretString(payload.value, options, 'getSecret', secretName);
+    const value = options.validate ? assertValidSecret(decoded, options.validate, { operation: 'getSecret', secretId: secretName }) : (decoded as T);
 
-      const response = await this.client.send(command);
-
-      if ('SecretString' in response && response.SecretString) {
-        if (options.parse) {
-          try {
-            return JSON.parse(response.SecretString);
-          } catch {
-            return response.SecretString as unknown as T;
-          }
-        }
-        return response.SecretString as unknown as T;
-      }
+    return options.redact ? new SecretValue(value) : value;
+  }
 
-      throw new SecretsManagerError('Binary secrets are not supported');
+  /**
+   * Retrieves a secret value along with whether it is stored as a string or as binary data.
+   * @param {string} secretName - Name or ARN of the secret to retrieve
+   * @param {GetSecretOptions} options - Optional settings like version (parse is ignored)
+   * @returns {Promise<SecretPayload>} The raw string or binary secret value
+   */
+  async getSecretPayload(secretName: string, options: GetSecretOptions = {}): Promise<SecretPayload> {
+    try {
+      return await this.readSecretPayload(secretName, options);
     } catch (error) {
-      // Explicitly cast or check if error is an instance of Error
-      if (error instanceof Error) {
-        if (error.name === 'InvalidRequestException' && error.message.includes('marked for deletion')) {
-          throw new SecretsManagerError('The requested secret is marked for deletion and cannot be accessed.', error);
-        }
-        // Handle other known errors
-        if (error.name === 'ResourceNotFoundException') {
-          throw new SecretsManagerError(`Secret "${secretName}" not found.`, error);
-        }
-        if (error.name === 'AccessDeniedException') {
-          throw new SecretsManagerError('Access denied to the requested secret.', error);
-        }
-        if (error.name === 'ThrottlingException') {
-          throw new SecretsManagerError('Request throttled. Try again later.', error);
-        }
+      const mapped = toSecretsManagerError(error, { operation: 'getSecret', secretId: secretName, message: 'Failed to retrieve secret' });
+      if (mapped instanceof SecretMarkedForDeletionError && !mapped.deletionDate) {
+        throw await this.withDeletionDate(secretName, mapped);
       }
-      // Fallback for unknown errors (casting to Error)
-      throw this.formatError('Failed to retrieve secret', error as Error);
+      throw mapped;
     }
   }
 
@@ -95,15 +130,20 @@ export class AWSSecretsManager {
         NextToken: options.nextToken,
       });
 
-      const response = await this.client.send(command);
+      const response = await this.execute({ operation: 'batchGetSecrets' }, abortSignal => this.client.send(command, { abortSignal }));
 
       if (response.SecretValues) {
         for (const secretValue of response.SecretValues) {
           if (secretValue.Name) {
             if (secretValue.SecretString) {
-              result.secrets[secretValue.Name] = options.parse ? parseSecretValue(secretValue.SecretString) : secretValue.SecretString;
+              this.redactor?.add(secretValue.SecretString);
+              const value = this.decodeSecretString(secretValue.SecretString, options, 'batchGetSecrets', secretValue.Name);
+              result.secrets[secretValue.Name] = options.validate
+                ? assertValidSecret(value, options.validate, { operation: 'batchGetSecrets', secretId: secretValue.Name })
+                : value;
             } else if (secretValue.SecretBinary) {
-              throw new SecretsManagerError('Binary secrets are not supported');
+              this.redactor?.add(secretValue.SecretBinary);
+              result.secrets[secretValue.Name] = Buffer.from(secretValue.SecretBinary);
             }
           }
         }
@@ -123,88 +163,394 @@ export class AWSSecretsManager {
 
       return result;
     } catch (error) {
-      if (error instanceof SecretsManagerError) {
-        throw error;
-      }
-      if (error instanceof Error) {
-        if (error.name === 'ResourceNotFoundException') {
-          throw new SecretsManagerError('One or more secrets not found', error);
-        }
-        if (error.name === 'AccessDeniedException') {
-          throw new SecretsManagerError('Access denied to one or more secrets', error);
-        }
-        if (error.name === 'ThrottlingException') {
-          throw new SecretsManagerError('Request throttled. Try again later.', error);
+      throw toSecretsManagerError(error, { operation: 'batchGetSecrets', message: 'Failed to retrieve secrets' });
+    }
+  }
+
+  /**
+   * Iterates over batch results page by page, following NextToken until done. Secret ID lists longer than
+   * the 20-ID API limit are split into chunks automatically.
+   * @param {BatchGetSecretOptions & PaginationOptions} options - Batch options plus an optional item cap and AbortSignal
+   * @returns {AsyncGenerator<BatchGetSecretResult>} One result per page, without a nextToken
+   */
+  async *iterateBatchSecrets(options: BatchGetSecretOptions & PaginationOptions): AsyncGenerator<BatchGetSecretResult> {
+    const { maxItems, signal, ...batchOptions } = options;
+    const idChunks = batchOptions.secretIds.length > 0 ? chunk(batchOptions.secretIds, BATCH_GET_SECRET_ID_LIMIT) : [[]];
+    let remaining = maxItems ?? Infinity;
+    let nextToken = batchOptions.nextToken;
+
+    for (const secretIds of idChunks) {
+      do {
+        this.throwIfAborted(signal, 'iterateBatchSecrets');
+        const page = await this.batchGetSecrets({ ...batchOptions, secretIds, nextToken });
+        nextToken = page.nextToken;
+
+        const names = Object.keys(page.secrets).slice(0, remaining);
+        remaining -= names.length;
+        yield {
+          secrets: names.reduce((acc, name) => {
+            acc[name] = page.secrets[name];
+            return acc;
+          }, {} as Record<string, any>),
+          errors: page.errors,
+        };
+
+        if (remaining <= 0) {
+          return;
         }
-      }
-      throw this.formatError('Failed to retrieve secrets', error as Error);
+      } while (nextToken);
+    }
+  }
+
+  /**
+   * Retrieves every matching secret, following pagination and chunking the ID list as needed.
+   * @param {BatchGetSecretOptions & PaginationOptions} options - Batch options plus an optional item cap and AbortSignal
+   * @returns {Promise<BatchGetSecretResult>} Merged secrets and errors from all pages
+   */
+  async batchGetAllSecrets(options: BatchGetSecretOptions & PaginationOptions): Promise<BatchGetSecretResult> {
+    const result: BatchGetSecretResult = {
+      secrets: {},
+      errors: [],
+    };
+
+    for await (const page of this.iterateBatchSecrets(options)) {
+      Object.assign(result.secrets, page.secrets);
+      result.errors.push(...page.errors);
     }
+
+    return result;
   }
 
   /**
    * Creates a new secret with the specified name and value.
    * @param {string} secretName - Name for the new secret
-   * @param {T} secretValue - Value to store (will be stringified if not a string)
-   * @param {SecretOptions} options - Optional description and tags
+   * @param {T} secretValue - Value to store (Buffers and Uint8Arrays are stored as binary, other non-strings are stringified)
+   * @param {SecretOptions<T>} options - Optional description, tags, KMS key, idempotency token, replica overwrite, validator and password generation
    * @returns {Promise<string>} ARN of the created secret
    */
-  async createSecret<T = any>(secretName: string, secretValue: T, options: SecretOptions = {}): Promise<string> {
+  async createSecret<T = any>(secretName: string, secretValue: T, options: SecretOptions<T> = {}): Promise<string> {
+    const value = options.generate ? await this.generateSecretValue(secretValue, options.generate, secretName) : secretValue;
+    this.validateBeforeWrite(value, options, 'createSecret', secretName);
+    this.redactor?.add(value);
+
     try {
       const command = new CreateSecretCommand({
         Name: secretName,
-        SecretString: typeof secretValue === 'string' ? secretValue : JSON.stringify(secretValue),
+        ...toSecretValueInput(value),
         Description: options.description,
         Tags: options.tags,
+        KmsKeyId: options.kmsKeyId,
+        ClientRequestToken: this.idempotencyToken(options.clientRequestToken),
+        ForceOverwriteReplicaSecret: options.forceOverwriteReplicaSecret,
       });
 
-      const response = await this.client.send(command);
+      const response = await this.execute({ operation: 'createSecret', secretId: secretName }, abortSignal => this.client.send(command, { abortSignal }));
+      this.invalidate(secretName, response);
       return response.ARN || secretName;
     } catch (error) {
-      throw this.formatError('Failed to create secret', error);
+      throw toSecretsManagerError(error, { operation: 'createSecret', secretId: secretName, message: 'Failed to create secret' });
+    }
+  }
+
+  /**
+   * Generates a random password with Secrets Manager's GetRandomPassword API, or locally with Node's crypto module.
+   * By default a failed API call (e.g. no network or no permission) falls back to local generation.
+   * @param {GeneratePasswordOptions} options - Length, character types, excluded characters and where to generate
+   * @returns {Promise<string>} The generated password
+   */
+  async generatePassword(options: GeneratePasswordOptions = {}): Promise<string> {
+    const { source = 'auto', ...passwordOptions } = options;
+    if (source === 'local') {
+      return generateLocalPassword(passwordOptions);
+    }
+
+    try {
+      const command = new GetRandomPasswordCommand({
+        PasswordLength: passwordOptions.length,
+        ExcludeCharacters: passwordOptions.excludeCharacters,
+        ExcludeNumbers: passwordOptions.excludeNumbers,
+        ExcludePunctuation: passwordOptions.excludePunctuation,
+        ExcludeUppercase: passwordOptions.excludeUppercase,
+        ExcludeLowercase: passwordOptions.excludeLowercase,
+        IncludeSpace: passwordOptions.includeSpace,
+        RequireEachIncludedType: passwordOptions.requireEachIncludedType,
+      });
+
+      const response = await this.execute({ operation: 'generatePassword' }, abortSignal => this.client.send(command, { abortSignal }));
+      if (!response.RandomPassword) {
+        throw new SecretsManagerError('GetRandomPassword returned no password', undefined, { operation: 'generatePassword' });
+      }
+      return response.RandomPassword;
+    } catch (error) {
+      const mapped = toSecretsManagerError(error, { operation: 'generatePassword', message: 'Failed to generate password' });
+      // Options AWS rejects would fail locally too, so only other errors fall back
+      if (source === 'auto' && !(mapped instanceof InvalidSecretParameterError)) {
+        return generateLocalPassword(passwordOptions);
+      }
+      throw mapped;
     }
   }
 
   /**
    * Updates an existing secret's value.
    * @param {string} secretName - Name or ARN of the secret to update
-   * @param {T} secretValue - New value to store
-   * @param {SecretOptions} options - Optional description
+   * @param {T} secretValue - New value to store (Buffers and Uint8Arrays are stored as binary)
+   * @param {SecretOptions<T>} options - Optional description, KMS key, idempotency token and validator
    * @returns {Promise<string>} ARN of the updated secret
    */
-  async updateSecret<T = any>(secretName: string, secretValue: T, options: SecretOptions = {}): Promise<string> {
+  async updateSecret<T = any>(secretName: string, secretValue: T, options: SecretOptions<T> = {}): Promise<string> {
+    this.validateBeforeWrite(secretValue, options, 'updateSecret', secretName);
+    this.redactor?.add(secretValue);
+
     try {
       const command = new UpdateSecretCommand({
         SecretId: secretName,
-        SecretString: typeof secretValue === 'string' ? secretValue : JSON.stringify(secretValue),
+        ...toSecretValueInput(secretValue),
         Description: options.description,
+        KmsKeyId: options.kmsKeyId,
+        ClientRequestToken: this.idempotencyToken(options.clientRequestToken),
       });
 
-      const response = await this.client.send(command);
+      const response = await this.execute({ operation: 'updateSecret', secretId: secretName }, abortSignal => this.client.send(command, { abortSignal }));
+      this.invalidate(secretName, response);
       return response.ARN || secretName;
     } catch (error) {
-      throw this.formatError('Failed to update secret', error);
+      throw toSecretsManagerError(error, { operation: 'updateSecret', secretId: secretName, message: 'Failed to update secret' });
+    }
+  }
+
+  /**
+   * Changes the description or KMS key of a secret without creating a new version of its value.
+   * @param {string} secretName - Name or ARN of the secret to update
+   * @param {SecretMetadataUpdate} update - New description and/or KMS key
+   * @returns {Promise<string>} ARN of the updated secret
+   */
+  async updateSecretMetadata(secretName: string, update: SecretMetadataUpdate): Promise<string> {
+    if (update.description === undefined && update.kmsKeyId === undefined) {
+      throw new InvalidSecretParameterError('Provide a description or a KMS key to update.', undefined, { operation: 'updateSecretMetadata', secretId: secretName });
+    }
+
+    try {
+      const command = new UpdateSecretCommand({
+        SecretId: secretName,
+        Description: update.description,
+        KmsKeyId: update.kmsKeyId,
+      });
+
+      const response = await this.execute({ operation: 'updateSecretMetadata', secretId: secretName }, abortSignal => this.client.send(command, { abortSignal }));
+      return response.ARN || secretName;
+    } catch (error) {
+      throw toSecretsManagerError(error, { operation: 'updateSecretMetadata', secretId: secretName, message: 'Failed to update secret metadata' });
+    }
+  }
+
+  /**
+   * Stores a new version of a secret's value with explicit staging labels.
+   * @param {string} secretName - Name or ARN of the secret
+   * @param {T} secretValue - Value to store (Buffers and Uint8Arrays are stored as binary)
+   * @param {PutSecretValueOptions} options - Optional idempotency token and version stages
+   * @returns {Promise<PutSecretValueResult>} ARN, name, version ID and stages of the new version
+   */
+  async putSecretValue<T = any>(secretName: string, secretValue: T, options: PutSecretValueOptions = {}): Promise<PutSecretValueResult> {
+    this.redactor?.add(secretValue);
+
+    try {
+      const command = new PutSecretValueCommand({
+        SecretId: secretName,
+        ...toSecretValueInput(secretValue),
+        ClientRequestToken: this.idempotencyToken(options.clientRequestToken),
+        VersionStages: options.versionStages,
+        RotationToken: options.rotationToken,
+      });
+
+      const response = await this.execute({ operation: 'putSecretValue', secretId: secretName }, abortSignal => this.client.send(command, { abortSignal }));
+      this.invalidate(secretName, response);
+      return {
+        arn: response.ARN,
+        name: response.Name,
+        versionId: response.VersionId,
+        versionStages: response.VersionStages,
+      };
+    } catch (error) {
+      throw toSecretsManagerError(error, { operation: 'putSecretValue', secretId: secretName, message: 'Failed to put secret value' });
+    }
+  }
+
+  /**
+   * Changes part of a JSON secret without overwriting concurrent writes. The patched value is stored as a
+   * new version, and AWSCURRENT is moved to it only if it still points at the version that was read;
+   * otherwise the patch is re-applied to the newer value.
+   * @param {string} secretName - Name or ARN of the secret
+   * @param {MergePatch<T> | JsonPatchOperation[]} patch - A merge patch (`null` removes a key) or JSON Patch operations
+   * @param {PatchSecretOptions<T>} options - Optional expected version ID, attempt limit and validator
+   * @returns {Promise<PatchSecretResult<T>>} The written value, the new and previous version IDs and the attempts used
+   */
+  async patchSecret<T = any>(secretName: string, patch: MergePatch<T> | JsonPatchOperation[], options: PatchSecretOptions<T> = {}): Promise<PatchSecretResult<T>> {
+    const maxAttempts = options.expectedVersionId ? 1 : Math.max(1, options.maxAttempts ?? 3);
+    const details = { operation: 'patchSecret', secretId: secretName };
+
+    for (let attempt = 1; ; attempt++) {
+      const current = await this.getSecretPayload(secretName, { bypassCache: true });
+      if (options.expectedVersionId && current.versionId !== options.expectedVersionId) {
+        throw new SecretConflictError(`Secret "${secretName}" was modified: AWSCURRENT is no longer version ${options.expectedVersionId}.`, undefined, details);
+      }
+
+      const document = current.type === 'string' ? parseStrict<unknown>(current.value, details) : undefined;
+      if (typeof document !== 'object' || document === null || Array.isArray(document)) {
+        throw new InvalidSecretParameterError(`Secret "${secretName}" is not a JSON object and cannot be patched.`, undefined, details);
+      }
+      const value = (Array.isArray(patch) ? applyJsonPatch(document, patch, details) : applyMergePatch(document, patch)) as T;
+      this.validateBeforeWrite(value, options, 'patchSecret', secretName);
+
+      const written = await this.putSecretValue(secretName, value, { versionStages: [PATCH_VERSION_STAGE] });
+      try {
+        // Rejected unless AWSCURRENT is still attached to the version the patch was applied to
+        await this.updateSecretVersionStage(secretName, 'AWSCURRENT', {
+          moveToVersionId: written.versionId,
+          removeFromVersionId: current.versionId,
+        });
+      } catch (error) {
+        if (!(error instanceof InvalidSecretParameterError) || !(await this.currentVersionChanged(secretName, current.versionId))) {
+          throw error;
+        }
+        if (attempt >= maxAttempts) {
+          throw new SecretConflictError(`Secret "${secretName}" was modified concurrently; gave up after ${attempt} attempt(s).`, error, details);
+        }
+        continue;
+      } finally {
+        // The label is only bookkeeping, also on versions that lost the race; a concurrent patch may already have moved it
+        await this.updateSecretVersionStage(secretName, PATCH_VERSION_STAGE, { removeFromVersionId: written.versionId }).catch(() => undefined);
+      }
+
+      return { value, versionId: written.versionId, previousVersionId: current.versionId, attempts: attempt };
+    }
+  }
+
+  /**
+   * Moves a staging label from one version of a secret to another.
+   * @param {string} secretName - Name or ARN of the secret
+   * @param {string} versionStage - Staging label to move, e.g. 'AWSCURRENT'
+   * @param {UpdateVersionStageOptions} options - Version to move the label to and/or remove it from
+   * @returns {Promise<{ arn?: string; name?: string }>} ARN and name of the secret
+   */
+  async updateSecretVersionStage(secretName: string, versionStage: string, options: UpdateVersionStageOptions): Promise<{ arn?: string; name?: string }> {
+    try {
+      const command = new UpdateSecretVersionStageCommand({
+        SecretId: secretName,
+        VersionStage: versionStage,
+        MoveToVersionId: options.moveToVersionId,
+        RemoveFromVersionId: options.removeFromVersionId,
+      });
+
+      const response = await this.execute({ operation: 'updateSecretVersionStage', secretId: secretName }, abortSignal => this.client.send(command, { abortSignal }));
+      this.invalidate(secretName, response);
+      return { arn: response.ARN, name: response.Name };
+    } catch (error) {
+      throw toSecretsManagerError(error, { operation: 'updateSecretVersionStage', secretId: secretName, message: 'Failed to update secret version stage' });
+    }
+  }
+
+  /**
+   * Gets the staging labels attached to each version of a secret.
+   * @param {string} secretName - Name or ARN of the secret
+   * @returns {Promise<Record<string, string[]>>} Staging labels keyed by version ID
+   */
+  async getVersionStages(secretName: string): Promise<Record<string, string[]>> {
+    try {
+      const command = new DescribeSecretCommand({
+        SecretId: secretName,
+      });
+
+      const response = await this.execute({ operation: 'getVersionStages', secretId: secretName }, abortSignal => this.client.send(command, { abortSignal }));
+      return response.VersionIdsToStages || {};
+    } catch (error) {
+      throw toSecretsManagerError(error, { operation: 'getVersionStages', secretId: secretName, message: 'Failed to get secret version stages' });
     }
   }
 
   /**
    * Deletes a secret, optionally with a recovery window.
    * @param {string} secretName - Name or ARN of the secret to delete
-   * @param {DeleteSecretOptions} options - Optional force delete and recovery window settings
+   * @param {DeleteSecretOptions} options - Optional force delete, recovery window and dry-run settings
+   * @returns {Promise<DeleteSecretResult>} ARN, name and scheduled deletion date of the secret
    */
-  async deleteSecret(secretName: string, options: DeleteSecretOptions = {}): Promise<void> {
+  async deleteSecret(secretName: string, options: DeleteSecretOptions = {}): Promise<DeleteSecretResult> {
+    const recoveryDays = options.forceDelete ? undefined : options.recoveryDays || 30;
+
+    if (options.dryRun) {
+      validateDeleteOptions(secretName, options);
+      const metadata = await this.describeSecret(secretName);
+      // Deleting again only succeeds without recovery; otherwise the existing date stands
+      if (metadata.deletedDate && !options.forceDelete) {
+        return { arn: metadata.arn, name: metadata.name, deletionDate: metadata.deletedDate, dryRun: true, alreadyScheduled: true };
+      }
+      return {
+        arn: metadata.arn,
+        name: metadata.name,
+        deletionDate: new Date(Date.now() + (recoveryDays || 0) * 24 * 60 * 60 * 1000),
+        dryRun: true,
+      };
+    }
+
     try {
       const command = new DeleteSecretCommand({
         SecretId: secretName,
         ForceDeleteWithoutRecovery: options.forceDelete,
-        RecoveryWindowInDays: options.forceDelete ? undefined : options.recoveryDays || 30,
+        RecoveryWindowInDays: recoveryDays,
+      });
+
+      const response = await this.execute({ operation: 'deleteSecret', secretId: secretName }, abortSignal => this.client.send(command, { abortSignal }));
+      this.invalidate(secretName, response);
+      return {
+        arn: response.ARN,
+        name: response.Name,
+        deletionDate: response.DeletionDate,
+        dryRun: false,
+      };
+    } catch (error) {
+      throw toSecretsManagerError(error, { operation: 'deleteSecret', secretId: secretName, message: 'Failed to delete secret' });
+    }
+  }
+
+  /**
+   * Cancels a scheduled deletion and makes the secret accessible again.
+   * @param {string} secretName - Name or ARN of the secret to restore
+   * @returns {Promise<{ arn?: string; name?: string }>} ARN and name of the restored secret
+   */
+  async restoreSecret(secretName: string): Promise<{ arn?: string; name?: string }> {
+    try {
+      const command = new RestoreSecretCommand({
+        SecretId: secretName,
       });
 
-      await this.client.send(command);
+      const response = await this.execute({ operation: 'restoreSecret', secretId: secretName }, abortSignal => this.client.send(command, { abortSignal }));
+      this.invalidate(secretName, response);
+      return { arn: response.ARN, name: response.Name };
     } catch (error) {
-      throw this.formatError('Failed to delete secret', error);
+      throw toSecretsManagerError(error, { operation: 'restoreSecret', secretId: secretName, message: 'Failed to restore secret' });
     }
   }
 
+  /**
+   * Lists the secrets that are scheduled for deletion, following pagination until done.
+   * @param {ListAllSecretOptions & PaginationOptions} options - Optional filtering plus an item cap and AbortSignal
+   * @returns {Promise<SecretMetadata[]>} Metadata of each pending secret; `deletedDate` holds its scheduled deletion date
+   */
+  async listSecretsPendingDeletion(options: ListAllSecretOptions & PaginationOptions = {}): Promise<SecretMetadata[]> {
+    const { maxItems, signal, ...listOptions } = options;
+    const pending: SecretMetadata[] = [];
+    let nextToken = listOptions.nextToken;
+
+    do {
+      this.throwIfAborted(signal, 'listSecretsPendingDeletion');
+      const page = await this.listSecrets({ ...listOptions, nextToken, includeMetadata: true, includePlannedDeletion: true });
+      nextToken = page.nextToken;
+      pending.push(...(page.secrets || []).filter(secret => secret.deletedDate));
+    } while (nextToken && pending.length < (maxItems ?? Infinity));
+
+    return pending.slice(0, maxItems);
+  }
+
   /**
    * Checks if a secret exists without retrieving its value.
    * @param {string} secretName - Name or ARN of the secret to check
@@ -215,42 +561,102 @@ export class AWSSecretsManager {
       const command = new DescribeSecretCommand({
         SecretId: secretName,
       });
-      await this.client.send(command);
+      await this.execute({ operation: 'secretExists', secretId: secretName }, abortSignal => this.client.send(command, { abortSignal }));
       return true;
     } catch (error) {
       if (error instanceof Error && error.name === 'ResourceNotFoundException') {
         return false;
       }
-      throw this.formatError('Failed to check secret existence', error);
+      throw toSecretsManagerError(error, { operation: 'secretExists', secretId: secretName, message: 'Failed to check secret existence' });
     }
   }
 
   /**
    * Lists all secrets with optional filtering.
-   * @param {ListAllSecretOptions} options - Optional filtering, pagination, and result limit settings
-   * @returns {Promise<{secretNames: string[], nextToken?: string}>} List of secret names and pagination token
+   * @param {ListAllSecretOptions} options - Optional filtering, pagination, result limit and metadata settings
+   * @returns {Promise<ListSecretsResult>} List of secret names, metadata if requested, and pagination token
    */
-  async listSecrets(options: ListAllSecretOptions = {}): Promise<{
-    secretNames: string[];
-    nextToken?: string;
-  }> {
+  async listSecrets(options: ListAllSecretOptions = {}): Promise<ListSecretsResult> {
     try {
       const command = new ListSecretsCommand({
+        IncludePlannedDeletion: options.includePlannedDeletion,
         MaxResults: options.maxResults,
         NextToken: options.nextToken,
         Filters: options.filters as Filter[],
       });
 
-      const response = await this.client.send(command);
-      return {
-        secretNames: (response.SecretList || []).map(secret => secret.Name).filter((name): name is string => !!name),
+      const response = await this.execute({ operation: 'listSecrets' }, abortSignal => this.client.send(command, { abortSignal }));
+      const secretList = response.SecretList || [];
+      const result: ListSecretsResult = {
+        secretNames: secretList.map(secret => secret.Name).filter((name): name is string => !!name),
         nextToken: response.NextToken,
       };
+
+      if (options.includeMetadata) {
+        result.secrets = secretList.map(toSecretMetadata);
+      }
+
+      return result;
     } catch (error) {
-      throw this.formatError('Failed to list secrets', error);
+      throw toSecretsManagerError(error, { operation: 'listSecrets', message: 'Failed to list secrets' });
     }
   }
 
+  /**
+   * Gets the metadata of a secret without retrieving its value.
+   * @param {string} secretName - Name or ARN of the secret
+   * @returns {Promise<SecretMetadata>} ARN, description, KMS key, rotation, dates, tags, versions and replication status
+   */
+  async describeSecret(secretName: string): Promise<SecretMetadata> {
+    try {
+      const command = new DescribeSecretCommand({
+        SecretId: secretName,
+      });
+
+      const response = await this.execute({ operation: 'describeSecret', secretId: secretName }, abortSignal => this.client.send(command, { abortSignal }));
+      return toSecretMetadata(response);
+    } catch (error) {
+      throw toSecretsManagerError(error, { operation: 'describeSecret', secretId: secretName, message: 'Failed to describe secret' });
+    }
+  }
+
+  /**
+   * Iterates over all secret names, following NextToken until done.
+   * @param {ListAllSecretOptions & PaginationOptions} options - Optional filtering plus an item cap and AbortSignal
+   * @returns {AsyncGenerator<string>} Secret names
+   */
+  async *iterateSecrets(options: ListAllSecretOptions & PaginationOptions = {}): AsyncGenerator<string> {
+    const { maxItems, signal, ...listOptions } = options;
+    let remaining = maxItems ?? Infinity;
+    let nextToken = listOptions.nextToken;
+
+    do {
+      this.throwIfAborted(signal, 'iterateSecrets');
+      const page = await this.listSecrets({ ...listOptions, nextToken });
+      nextToken = page.nextToken;
+
+      for (const name of page.secretNames) {
+        if (remaining-- <= 0) {
+          return;
+        }
+        yield name;
+      }
+    } while (nextToken && remaining > 0);
+  }
+
+  /**
+   * Lists all secret names, following pagination until done.
+   * @param {ListAllSecretOptions & PaginationOptions} options - Optional filtering plus an item cap and AbortSignal
+   * @returns {Promise<string[]>} All matching secret names
+   */
+  async listAllSecrets(options: ListAllSecretOptions & PaginationOptions = {}): Promise<string[]> {
+    const names: string[] = [];
+    for await (const name of this.iterateSecrets(options)) {
+      names.push(name);
+    }
+    return names;
+  }
+
   /**
    * Adds or updates tags for a secret.
    * @param {string} secretName - Name or ARN of the secret to tag
@@ -264,45 +670,245 @@ export class AWSSecretsManager {
         Tags: Object.entries(tags).map(([Key, Value]) => ({ Key, Value })),
       });
 
-      await this.client.send(command);
+      await this.execute({ operation: 'tagSecret', secretId: secretName }, abortSignal => this.client.send(command, { abortSignal }));
       return {
         success: true,
         message: `Successfully tagged secret "${secretName}" with ${Object.keys(tags).length} tags`,
       };
     } catch (error) {
-      throw this.formatError('Failed to tag secret', error);
+      throw toSecretsManagerError(error, { operation: 'tagSecret', secretId: secretName, message: 'Failed to tag secret' });
     }
   }
 
   /**
-   * Gets all versions of a secret.
+   * Removes tags from a secret.
    * @param {string} secretName - Name or ARN of the secret
-   * @returns {Promise<Array>} List of versions with their details
+   * @param {string[]} tagKeys - Keys of the tags to remove
+   * @returns {Promise<{ success: true; message: string }>} Success status and message
    */
-  async getSecretVersions(secretName: string): Promise<
-    Array<{
-      versionId: string;
-      createdDate?: Date;
-      isLatest: boolean;
-    }>
-  > {
+  async untagSecret(secretName: string, tagKeys: string[]): Promise<{ success: true; message: string }> {
     try {
-      const command = new ListSecretVersionIdsCommand({
+      const command = new UntagResourceCommand({
         SecretId: secretName,
-        IncludeDeprecated: true,
+        TagKeys: tagKeys,
       });
 
-      const response = await this.client.send(command);
-      return (response.Versions || []).map(version => ({
-        versionId: version.VersionId || 'unknown',
-        createdDate: version.CreatedDate,
-        isLatest: version.VersionStages?.includes('AWSCURRENT') || false,
-      }));
+      await this.execute({ operation: 'untagSecret', secretId: secretName }, abortSignal => this.client.send(command, { abortSignal }));
+      return {
+        success: true,
+        message: `Successfully removed ${tagKeys.length} tags from secret "${secretName}"`,
+      };
     } catch (error) {
-      throw this.formatError('Failed to get secret versions', error);
+      throw toSecretsManagerError(error, { operation: 'untagSecret', secretId: secretName, message: 'Failed to untag secret' });
     }
   }
 
+  /**
+   * Makes the tags of a secret exactly match the given set: missing or changed tags are applied
+   * and tags that are not listed are removed.
+   * @param {string} secretName - Name or ARN of the secret
+   * @param {Record<string, string>} tags - The complete set of tags the secret should have
+   * @returns {Promise<TagSyncResult>} Keys that were tagged and keys that were removed
+   */
+  async setTags(secretName: string, tags: Record<string, string>): Promise<TagSyncResult> {
+    const current = await this.getTags(secretName);
+    const removed = Object.keys(current).filter(key => !(key in tags));
+    const tagged = Object.keys(tags).filter(key => current[key] !== tags[key]);
+
+    if (removed.length > 0) {
+      await this.untagSecret(secretName, removed);
+    }
+    if (tagged.length > 0) {
+      await this.tagSecret(
+        secretName,
+        tagged.reduce((acc, key) => {
+          acc[key] = tags[key];
+          return acc;
+        }, {} as Record<string, string>),
+      );
+    }
+
+    return { tagged, removed };
+  }
+
+  /**
+   * Finds the secrets whose tags match every condition, following pagination until done. Tag keys are
+   * sent as a `tag-key` filter to narrow the listing; values are then matched exactly.
+   * @param {TagQuery} query - Tag conditions: an exact value, a list of allowed values, or `true` for any value
+   * @param {ListAllSecretOptions & PaginationOptions} options - Optional extra filters plus an item cap and AbortSignal
+   * @returns {Promise<SecretMetadata[]>} Metadata of each matching secret
+   */
+  async findSecretsByTags(query: TagQuery, options: ListAllSecretOptions & PaginationOptions = {}): Promise<SecretMetadata[]> {
+    const { maxItems, signal, ...listOptions } = options;
+    const keys = Object.keys(query);
+    const filters = keys.length > 0 ? [...(listOptions.filters || []), { Key: 'tag-key' as const, Values: keys }] : listOptions.filters;
+    const matches: SecretMetadata[] = [];
+    let nextToken = listOptions.nextToken;
+
+    do {
+      this.throwIfAborted(signal, 'findSecretsByTags');
+      const page = await this.listSecrets({ ...listOptions, filters, nextToken, includeMetadata: true });
+      nextToken = page.nextToken;
+      matches.push(...(page.secrets || []).filter(secret => matchesTagQuery(secret.tags, query)));
+    } while (nextToken && matches.length < (maxItems ?? Infinity));
+
+    return matches.slice(0, maxItems);
+  }
+
+  /**
+   * Gets the resource policy attached to a secret.
+   * @param {string} secretName - Name or ARN of the secret
+   * @returns {Promise<ResourcePolicy>} Secret ARN and name, and the parsed policy if one is attached
+   */
+  async getResourcePolicy(secretName: string): Promise<ResourcePolicy> {
+    try {
+      const command = new GetResourcePolicyCommand({
+        SecretId: secretName,
+      });
+
+      const response = await this.execute({ operation: 'getResourcePolicy', secretId: secretName }, abortSignal => this.client.send(command, { abortSignal }));
+      return {
+        arn: response.ARN,
+        name: response.Name,
+        policy: response.ResourcePolicy ? JSON.parse(response.ResourcePolicy) : undefined,
+      };
+    } catch (error) {
+      throw toSecretsManagerError(error, { operation: 'getResourcePolicy', secretId: secretName, message: 'Failed to get resource policy' });
+    }
+  }
+
+  /**
+   * Attaches a resource policy to a secret, replacing any existing one. Policies that grant broad
+   * access are rejected unless blockPublicPolicy is false.
+   * @param {string} secretName - Name or ARN of the secret
+   * @param {string | PolicyDocument} policy - Policy JSON, or a document e.g. from ResourcePolicyBuilder
+   * @param {PutResourcePolicyOptions} options - Optional blockPublicPolicy setting
+   * @returns {Promise<{ arn?: string; name?: string }>} ARN and name of the secret
+   */
+  async putResourcePolicy(secretName: string, policy: string | PolicyDocument, options: PutResourcePolicyOptions = {}): Promise<{ arn?: string; name?: string }> {
+    try {
+      const command = new PutResourcePolicyCommand({
+        SecretId: secretName,
+        ResourcePolicy: serializePolicy(policy),
+        BlockPublicPolicy: options.blockPublicPolicy ?? true,
+      });
+
+      const response = await this.execute({ operation: 'putResourcePolicy', secretId: secretName }, abortSignal => this.client.send(command, { abortSignal }));
+      return { arn: response.ARN, name: response.Name };
+    } catch (error) {
+      throw toSecretsManagerError(error, { operation: 'putResourcePolicy', secretId: secretName, message: 'Failed to put resource policy' });
+    }
+  }
+
+  /**
+   * Removes the resource policy from a secret.
+   * @param {string} secretName - Name or ARN of the secret
+   * @returns {Promise<{ arn?: string; name?: string }>} ARN and name of the secret
+   */
+  async deleteResourcePolicy(secretName: string): Promise<{ arn?: string; name?: string }> {
+    try {
+      const command = new DeleteResourcePolicyCommand({
+        SecretId: secretName,
+      });
+
+      const response = await this.execute({ operation: 'deleteResourcePolicy', secretId: secretName }, abortSignal => this.client.send(command, { abortSignal }));
+      return { arn: response.ARN, name: response.Name };
+    } catch (error) {
+      throw toSecretsManagerError(error, { operation: 'deleteResourcePolicy', secretId: secretName, message: 'Failed to delete resource policy' });
+    }
+  }
+
+  /**
+   * Checks a resource policy for syntax errors and broad access without attaching it.
+   * @param {string | PolicyDocument} policy - Policy JSON, or a document e.g. from ResourcePolicyBuilder
+   * @param {ValidateResourcePolicyOptions} options - Optional secret the policy is meant for
+   * @returns {Promise<PolicyValidationResult>} Whether the policy passed, and each failed check
+   */
+  async validateResourcePolicy(policy: string | PolicyDocument, options: ValidateResourcePolicyOptions = {}): Promise<PolicyValidationResult> {
+    try {
+      const command = new ValidateResourcePolicyCommand({
+        SecretId: options.secretName,
+        ResourcePolicy: serializePolicy(policy),
+      });
+
+      const response = await this.execute({ operation: 'validateResourcePolicy', secretId: options.secretName }, abortSignal => this.client.send(command, { abortSignal }));
+      return {
+        valid: !!response.PolicyValidationPassed,
+        findings: (response.ValidationErrors || []).map(finding => ({ checkName: finding.CheckName, message: finding.ErrorMessage })),
+      };
+    } catch (error) {
+      throw toSecretsManagerError(error, { operation: 'validateResourcePolicy', secretId: options.secretName, message: 'Failed to validate resource policy' });
+    }
+  }
+
+  /**
+   * Gets the versions of a secret with their staging labels, following pagination until done.
+   * @param {string} secretName - Name or ARN of the secret
+   * @param {GetSecretVersionsOptions & PaginationOptions} options - Whether to include deprecated versions, plus an item cap and AbortSignal
+   * @returns {Promise<SecretVersion[]>} List of versions with their details
+   */
+  async getSecretVersions(secretName: string, options: GetSecretVersionsOptions & PaginationOptions = {}): Promise<SecretVersion[]> {
+    const { maxItems, signal, ...listOptions } = options;
+    const versions: SecretVersion[] = [];
+    let nextToken: string | undefined;
+
+    do {
+      this.throwIfAborted(signal, 'getSecretVersions');
+      const page = await this.listSecretVersions(secretName, { ...listOptions, nextToken });
+      nextToken = page.nextToken;
+      versions.push(...page.versions);
+    } while (nextToken && versions.length < (maxItems ?? Infinity));
+
+    return versions.slice(0, maxItems);
+  }
+
+  /**
+   * Lists one page of the versions of a secret.
+   * @param {string} secretName - Name or ARN of the secret
+   * @param {ListSecretVersionsOptions} options - Optional pagination settings and whether to include deprecated versions
+   * @returns {Promise<SecretVersionsResult>} List of versions with their details and pagination token
+   */
+  async listSecretVersions(secretName: string, options: ListSecretVersionsOptions = {}): Promise<SecretVersionsResult> {
+    try {
+      const command = new ListSecretVersionIdsCommand({ SecretId: secretName, IncludeDeprecated: options.includeDeprecated ?? true, MaxResults: options.maxResults, NextToken: options.nextToken });
+      const response = await this.execute({ operation: 'listSecretVersions', secretId: secretName }, abortSignal => this.client.send(command, { abortSignal }));
+      return {
+        versions: (response.Versions || []).map(version => ({ versionId: version.VersionId || 'unknown', versionStages: version.VersionStages || [], createdDate: version.CreatedDate, lastAccessedDate: version.LastAccessedDate, kmsKeyIds: version.KmsKeyIds, isLatest: version.VersionStages?.includes('AWSCURRENT') || false })),
+        nextToken: response.NextToken,
+      };
+    } catch (error) {
+      throw toSecretsManagerError(error, { operation: 'listSecretVersions', secretId: secretName, message: 'Failed to get secret versions' });
+    }
+  }
+
+  /**
+   * Moves a staging label (AWSCURRENT by default) to the given version, removing it from the version that holds it now.
+   * @param {string} secretName - Name or ARN of the secret
+   * @param {string} versionId - Version that should receive the staging label
+   * @param {string} versionStage - Staging label to move (default: 'AWSCURRENT')
+   * @returns {Promise<VersionStageMoveResult>} The version that now holds the label and the one it was removed from
+   */
+  async promoteVersion(secretName: string, versionId: string, versionStage = 'AWSCURRENT'): Promise<VersionStageMoveResult> {
+    const stages = await this.getVersionStages(secretName);
+    return this.moveVersionStage(secretName, stages, versionId, versionStage);
+  }
+
+  /**
+   * Rolls a secret back by moving AWSCURRENT to the version currently labelled AWSPREVIOUS.
+   * @param {string} secretName - Name or ARN of the secret
+   * @returns {Promise<VersionStageMoveResult>} The restored version and the version it replaced
+   */
+  async rollbackSecret(secretName: string): Promise<VersionStageMoveResult> {
+    const stages = await this.getVersionStages(secretName);
+    const previous = Object.keys(stages).find(id => stages[id].includes('AWSPREVIOUS'));
+
+    if (!previous) {
+      throw new SecretsManagerError(`Secret "${secretName}" has no AWSPREVIOUS version to roll back to.`, undefined, { operation: 'rollbackSecret', secretId: secretName });
+    }
+
+    return this.moveVersionStage(secretName, stages, previous, 'AWSCURRENT');
+  }
+
   /**
    * Get all tags associated with a secret.
    * @param {string} secretName - Name or ARN of the secret
@@ -314,32 +920,601 @@ export class AWSSecretsManager {
         SecretId: secretName,
       });
 
-      const response = await this.client.send(command);
+      const response = await this.execute({ operation: 'getTags', secretId: secretName }, abortSignal => this.client.send(command, { abortSignal }));
+      return tagsToRecord(response.Tags);
+    } catch (error) {
+      throw toSecretsManagerError(error, { operation: 'getTags', secretId: secretName, message: 'Failed to get secret tags' });
+    }
+  }
+
+  /**
+   * Starts an immediate rotation using the secret's existing rotation configuration.
+   * @param {string} secretName - Name or ARN of the secret to rotate
+   * @param {RotateSecretOptions} options - Optional idempotency token for the new version
+   * @returns {Promise<RotationResult>} ARN, name and the version ID created by the rotation
+   */
+  async rotateSecret(secretName: string, options: RotateSecretOptions = {}): Promise<RotationResult> {
+    try {
+      const command = new RotateSecretCommand({
+        SecretId: secretName,
+        ClientRequestToken: options.clientRequestToken,
+        RotateImmediately: true,
+      });
+
+      const response = await this.execute({ operation: 'rotateSecret', secretId: secretName }, abortSignal => this.client.send(command, { abortSignal }));
+      this.invalidate(secretName, response);
+      return {
+        arn: response.ARN,
+        name: response.Name,
+        versionId: response.VersionId,
+      };
+    } catch (error) {
+      throw toSecretsManagerError(error, { operation: 'rotateSecret', secretId: secretName, message: 'Failed to rotate secret' });
+    }
+  }
+
+  /**
+   * Sets up or changes the rotation Lambda and schedule of a secret.
+   * @param {string} secretName - Name or ARN of the secret
+   * @param {ConfigureRotationOptions} options - Lambda ARN, schedule (days or cron/rate expression) and window duration
+   * @returns {Promise<RotationResult>} ARN, name and the version ID created if rotation started immediately
+   */
+  async configureRotation(secretName: string, options: ConfigureRotationOptions): Promise<RotationResult> {
+    try {
+      const command = new RotateSecretCommand({
+        SecretId: secretName,
+        RotationLambdaARN: options.lambdaArn,
+        RotationRules:
+          options.schedule || options.duration
+            ? {
+                AutomaticallyAfterDays: options.schedule?.automaticallyAfterDays,
+                ScheduleExpression: options.schedule?.scheduleExpression,
+                Duration: options.duration,
+              }
+            : undefined,
+        RotateImmediately: options.rotateImmediately ?? false,
+      });
 
-      if (!response.Tags || response.Tags.length === 0) {
-        return {};
+      const response = await this.execute({ operation: 'configureRotation', secretId: secretName }, abortSignal => this.client.send(command, { abortSignal }));
+      if (options.rotateImmediately) {
+        this.invalidate(secretName, response);
       }
+      return {
+        arn: response.ARN,
+        name: response.Name,
+        versionId: response.VersionId,
+      };
+    } catch (error) {
+      throw toSecretsManagerError(error, { operation: 'configureRotation', secretId: secretName, message: 'Failed to configure secret rotation' });
+    }
+  }
+
+  /**
+   * Cancels an in-progress rotation and turns off automatic rotation for the secret.
+   * @param {string} secretName - Name or ARN of the secret
+   * @returns {Promise<RotationResult>} ARN, name and the version ID of the cancelled rotation
+   */
+  async cancelRotateSecret(secretName: string): Promise<RotationResult> {
+    try {
+      const command = new CancelRotateSecretCommand({
+        SecretId: secretName,
+      });
 
-      return response.Tags.reduce((acc, tag) => {
-        if (tag.Key && tag.Value) {
-          acc[tag.Key] = tag.Value;
+      const response = await this.execute({ operation: 'cancelRotateSecret', secretId: secretName }, abortSignal => this.client.send(command, { abortSignal }));
+      return {
+        arn: response.ARN,
+        name: response.Name,
+        versionId: response.VersionId,
+      };
+    } catch (error) {
+      throw toSecretsManagerError(error, { operation: 'cancelRotateSecret', secretId: secretName, message: 'Failed to cancel secret rotation' });
+    }
+  }
+
+  /**
+   * Reads the current rotation configuration of a secret.
+   * @param {string} secretName - Name or ARN of the secret
+   * @returns {Promise<RotationConfig>} Rotation status, Lambda, schedule and last/next rotation dates
+   */
+  async getRotationConfig(secretName: string): Promise<RotationConfig> {
+    try {
+      const command = new DescribeSecretCommand({
+        SecretId: secretName,
+      });
+
+      const response = await this.execute({ operation: 'getRotationConfig', secretId: secretName }, abortSignal => this.client.send(command, { abortSignal }));
+      return {
+        enabled: response.RotationEnabled || false,
+        lambdaArn: response.RotationLambdaARN,
+        automaticallyAfterDays: response.RotationRules?.AutomaticallyAfterDays,
+        scheduleExpression: response.RotationRules?.ScheduleExpression,
+        duration: response.RotationRules?.Duration,
+        lastRotatedDate: response.LastRotatedDate,
+        nextRotationDate: response.NextRotationDate,
+      };
+    } catch (error) {
+      throw toSecretsManagerError(error, { operation: 'getRotationConfig', secretId: secretName, message: 'Failed to get rotation configuration' });
+    }
+  }
+
+  /**
+   * Replicates a secret to additional regions.
+   * @param {string} secretName - Name or ARN of the primary secret
+   * @param {Array<string | ReplicaRegion>} regions - Regions to add, optionally with a KMS key for each
+   * @param {ReplicateSecretOptions} options - Optional overwrite of existing secrets in the replica regions
+   * @returns {Promise<ReplicationResult>} ARN of the primary secret and the status of each replica
+   */
+  async replicateSecret(secretName: string, regions: Array<string | ReplicaRegion>, options: ReplicateSecretOptions = {}): Promise<ReplicationResult> {
+    try {
+      const command = new ReplicateSecretToRegionsCommand({
+        SecretId: secretName,
+        AddReplicaRegions: regions.map(entry => (typeof entry === 'string' ? { Region: entry } : { Region: entry.region, KmsKeyId: entry.kmsKeyId })),
+        ForceOverwriteReplicaSecret: options.forceOverwriteReplicaSecret,
+      });
+
+      const response = await this.execute({ operation: 'replicateSecret', secretId: secretName }, abortSignal => this.client.send(command, { abortSignal }));
+      return { arn: response.ARN, replicationStatus: (response.ReplicationStatus || []).map(toReplicaStatus) };
+    } catch (error) {
+      throw toSecretsManagerError(error, { operation: 'replicateSecret', secretId: secretName, message: 'Failed to replicate secret' });
+    }
+  }
+
+  /**
+   * Stops replicating a secret to the given regions and deletes the replicas there.
+   * @param {string} secretName - Name or ARN of the primary secret
+   * @param {string[]} regions - Replica regions to remove
+   * @returns {Promise<ReplicationResult>} ARN of the primary secret and the status of the remaining replicas
+   */
+  async removeReplicaRegions(secretName: string, regions: string[]): Promise<ReplicationResult> {
+    try {
+      const command = new RemoveRegionsFromReplicationCommand({
+        SecretId: secretName,
+        RemoveReplicaRegions: regions,
+      });
+
+      const response = await this.execute({ operation: 'removeReplicaRegions', secretId: secretName }, abortSignal => this.client.send(command, { abortSignal }));
+      return { arn: response.ARN, replicationStatus: (response.ReplicationStatus || []).map(toReplicaStatus) };
+    } catch (error) {
+      throw toSecretsManagerError(error, { operation: 'removeReplicaRegions', secretId: secretName, message: 'Failed to remove replica regions' });
+    }
+  }
+
+  /**
+   * Promotes a replica to a standalone primary secret in its region, e.g. during a regional outage.
+   * The request is sent to the replica region.
+   * @param {string} secretName - Name or ARN of the secret (a primary ARN is rewritten for the replica region)
+   * @param {string} replicaRegion - Region of the replica to promote
+   * @returns {Promise<{ arn?: string }>} ARN of the promoted secret
+   */
+  async stopReplicationToReplica(secretName: string, replicaRegion: string): Promise<{ arn?: string }> {
+    try {
+      const command = new StopReplicationToReplicaCommand({
+        SecretId: secretIdInRegion(secretName, replicaRegion),
+      });
+
+      const client = this.clientFor(replicaRegion);
+      const response = await this.execute({ operation: 'stopReplicationToReplica', secretId: secretName }, abortSignal => client.send(command, { abortSignal }));
+      return { arn: response.ARN };
+    } catch (error) {
+      throw toSecretsManagerError(error, { operation: 'stopReplicationToReplica', secretId: secretName, message: 'Failed to stop replication to replica' });
+    }
+  }
+
+  /**
+   * Reports the primary region and the replication status of each replica.
+   * @param {string} secretName - Name or ARN of the primary secret
+   * @returns {Promise<ReplicationStatusReport>} Replicas, whether all are in sync, and the failed ones
+   */
+  async getReplicationStatus(secretName: string): Promise<ReplicationStatusReport> {
+    try {
+      const command = new DescribeSecretCommand({
+        SecretId: secretName,
+      });
+
+      const response = await this.execute({ operation: 'getReplicationStatus', secretId: secretName }, abortSignal => this.client.send(command, { abortSignal }));
+      const replicas = (response.ReplicationStatus || []).map(toReplicaStatus);
+      return {
+        arn: response.ARN,
+        name: response.Name,
+        primaryRegion: response.PrimaryRegion,
+        replicas,
+        inSync: replicas.every(replica => replica.status === 'InSync'),
+        failed: replicas.filter(replica => replica.status === 'Failed'),
+      };
+    } catch (error) {
+      throw toSecretsManagerError(error, { operation: 'getReplicationStatus', secretId: secretName, message: 'Failed to get replication status' });
+    }
+  }
+
+  /**
+   * Watches a secret and calls back with the new value whenever its AWSCURRENT version changes, e.g. after
+   * a rotation. Checks back off exponentially while they fail.
+   * @param {string} secretName - Name or ARN of the secret
+   * @param {(change: SecretChangeEvent<T>) => void | Promise<void>} callback - Called with each new version; a failure is retried on the next check
+   * @param {WatchSecretOptions} options - Optional interval, backoff limit, parsing, AbortSignal and keep-alive setting
+   * @returns {SecretWatcher<T>} Handle with unsubscribe() that emits ready, change, error and stop events
+   */
+  watchSecret<T = any>(secretName: string, callback: (change: SecretChangeEvent<T>) => void | Promise<void>, options: WatchSecretOptions = {}): SecretWatcher<T> {
+    return new SecretWatcher<T>(this, secretName, callback, options);
+  }
+
+  /**
+   * Returns hit/miss counters and the current size of the secret cache.
+   * @returns {CacheStats} Cache statistics (all zero when caching is disabled)
+   */
+  getCacheStats(): CacheStats {
+    return this.cache ? this.cache.stats() : { hits: 0, misses: 0, size: 0 };
+  }
+
+  /**
+   * Removes cached values, either for a single secret or for all secrets.
+   * @param {string} secretName - Optional name or ARN of the secret to evict
+   */
+  clearCache(secretName?: string): void {
+    if (secretName) {
+      this.cache?.invalidate(secretName);
+    } else {
+      this.cache?.clear();
+    }
+  }
+
+  private decodeSecretString(value: string, options: { parse?: boolean; strict?: boolean }, operation: string, secretId: string): unknown {
+    if (!options.parse) {
+      return value;
+    }
+    return options.strict ? parseStrict(value, { operation, secretId }) : parseSecretValue(value);
+  }
+
+  private validateBeforeWrite<T>(secretValue: T, options: SecretOptions<T>, operation: string, secretId: string): void {
+    const plain = revealAll(secretValue) as unknown;
+    if (!options.validate || plain instanceof Uint8Array) {
+      return;
+    }
+    const value = typeof plain === 'string' ? parseSecretValue(plain) : plain;
+    assertValidSecret(value, options.validate, { operation, secretId });
+  }
+
+  private async generateSecretValue<T>(template: T, options: GenerateSecretValueOptions, secretName: string): Promise<T> {
+    const { field, ...passwordOptions } = options;
+    const details = { operation: 'createSecret', secretId: secretName };
+
+    if (field === undefined) {
+      if (template !== undefined && template !== null) {
+        throw new InvalidSecretParameterError('Pass either a secret value or generate options without a field, not both.', undefined, details);
+      }
+      return (await this.generatePassword(passwordOptions)) as unknown as T;
+    }
+
+    const plain = revealAll(template) as unknown;
+    if (typeof plain !== 'object' || plain === null || Array.isArray(plain) || plain instanceof Uint8Array) {
+      throw new InvalidSecretParameterError(`The secret value must be a JSON object to generate the "${field}" field.`, undefined, details);
+    }
+    return { ...plain, [field]: await this.generatePassword(passwordOptions) } as T;
+  }
+
+  private async readSecretPayload(secretName: string, options: GetSecretOptions): Promise<SecretPayload> {
+    const key = SecretCache.key(secretName, options.version, options.versionStage);
+    const fetch = (cache?: CacheStatus) => this.fetchSecretPayload(secretName, options.version, options.versionStage, cache);
+    // A read that bypasses the cache must not join a request that started before it
+    const load = (cache?: CacheStatus) => (options.bypassCache ? fetch(cache) : this.coalesce(key, () => fetch(cache)));
+
+    if (!this.cache) {
+      return load();
+    }
+
+    if (!options.bypassCache) {
+      const cached = this.cache.get(key);
+      if (cached.status === 'fresh') {
+        return this.observe({ operation: 'getSecret', secretId: secretName, cache: 'hit' }, async () => cached.value);
+      }
+      if (cached.status === 'stale') {
+        this.cache.revalidate(key, () => load('revalidate'));
+        return this.observe({ operation: 'getSecret', secretId: secretName, cache: 'stale' }, async () => cached.value);
+      }
+    }
+
+    const generation = this.cache.generation();
+    const value = await load(options.bypassCache ? 'bypass' : 'miss');
+    this.cache.set(key, value, generation);
+    return value;
+  }
+
+  // A write may name the secret differently from earlier reads, so drop entries under its name and ARN too
+  private invalidate(secretName: string, response: { ARN?: string; Name?: string }): void {
+    for (const secretId of [secretName, response.ARN, response.Name]) {
+      if (!secretId) {
+        continue;
+      }
+      this.cache?.invalidate(secretId);
+      // Reads issued after the write must not join a request sent before it
+      const prefix = SecretCache.prefix(secretId);
+      Array.from(this.inFlight.keys())
+        .filter(key => key.startsWith(prefix))
+        .forEach(key => this.inFlight.delete(key));
+    }
+  }
+
+  private coalesce(key: string, load: () => Promise<SecretPayload>): Promise<SecretPayload> {
+    if (!this.coalesceReads) {
+      return load();
+    }
+
+    let pending = this.inFlight.get(key);
+    if (!pending) {
+      const request: Promise<SecretPayload> = load().finally(() => {
+        // A write may have replaced this request with a newer one in the meantime
+        if (this.inFlight.get(key) === request) {
+          this.inFlight.delete(key);
         }
-        return acc;
-      }, {} as Record<string, string>);
+      });
+      pending = request;
+      this.inFlight.set(key, pending);
+    }
+    return pending;
+  }
+
+  private async fetchSecretPayload(secretName: string, version?: string, versionStage?: string, cache?: CacheStatus): Promise<SecretPayload> {
+    try {
+      if (this.batchLoader && !version && !versionStage) {
+        return await this.batchLoader.load(secretName);
+      }
+      return await this.fetchSecretPayloadFrom(this.client, secretName, version, versionStage, cache);
     } catch (error) {
-      if (error instanceof Error && error.name === 'ResourceNotFoundException') {
-        throw new SecretsManagerError(`Secret "${secretName}" not found.`, error);
+      const mapped = toSecretsManagerError(error, { operation: 'getSecret', secretId: secretName, message: 'Failed to retrieve secret' });
+      if (this.failoverRegions.length === 0 || !shouldFailOver(mapped)) {
+        throw error;
+      }
+
+      for (const region of this.failoverRegions) {
+        try {
+          return await this.fetchSecretPayloadFrom(this.clientFor(region), secretIdInRegion(secretName, region), version, versionStage, cache);
+        } catch {
+          // Try the next replica; the primary region's error is reported if none of them answers
+        }
+      }
+      throw error;
+    }
+  }
+
+  private async fetchSecretPayloadFrom(client: SecretsManagerClient, secretName: string, version?: string, versionStage?: string, cache?: CacheStatus): Promise<SecretPayload> {
+    const command = new GetSecretValueCommand({
+      SecretId: secretName,
+      VersionId: version,
+      VersionStage: versionStage,
+    });
+
+    const response = await this.execute({ operation: 'getSecret', secretId: secretName, cache }, abortSignal => client.send(command, { abortSignal }));
+    return this.toPayload(response, secretName);
+  }
+
+  private async loadSecretBatch(secretIds: string[]): Promise<Map<string, SecretPayload | Error>> {
+    const results = new Map<string, SecretPayload | Error>();
+    const loadEach = (ids: string[]) =>
+      Promise.all(
+        ids.map(id =>
+          this.fetchSecretPayloadFrom(this.client, id).then(
+            payload => results.set(id, payload),
+            error => results.set(id, error),
+          ),
+        ),
+      );
+
+    if (secretIds.length === 1) {
+      await loadEach(secretIds);
+      return results;
+    }
+
+    let response;
+    try {
+      const command = new BatchGetSecretValueCommand({ SecretIdList: secretIds });
+      response = await this.execute({ operation: 'batchGetSecrets' }, abortSignal => this.client.send(command, { abortSignal }));
+    } catch (error) {
+      if (toSecretsManagerError(error, { operation: 'batchGetSecrets', message: 'Failed to retrieve secrets' }).retryable) {
+        throw error;
+      }
+      // e.g. no permission for BatchGetSecretValue: read the secrets one by one instead
+      await loadEach(secretIds);
+      return results;
+    }
+
+    for (const entry of response.SecretValues || []) {
+      const id = secretIds.find(secretId => secretId === entry.Name || secretId === entry.ARN);
+      if (id) {
+        try {
+          results.set(id, this.toPayload(entry, id));
+        } catch (error) {
+          results.set(id, error as Error);
+        }
+      }
+    }
+    for (const entry of response.Errors || []) {
+      if (entry.SecretId && secretIds.includes(entry.SecretId)) {
+        results.set(entry.SecretId, Object.assign(new Error(entry.Message || 'Failed to retrieve secret'), { name: entry.ErrorCode || 'Error' }));
       }
-      throw this.formatError('Failed to get secret tags', error);
     }
+
+    // Partial ARNs and entries left for a next page are not matched above
+    await loadEach(secretIds.filter(id => !results.has(id)));
+    return results;
+  }
+
+  private toPayload(response: { SecretString?: string; SecretBinary?: Uint8Array; VersionId?: string }, secretId: string): SecretPayload {
+    if (response.SecretString) {
+      this.redactor?.add(response.SecretString);
+      return { type: 'string', value: response.SecretString, versionId: response.VersionId };
+    }
+    if (response.SecretBinary) {
+      this.redactor?.add(response.SecretBinary);
+      return { type: 'binary', value: Buffer.from(response.SecretBinary), versionId: response.VersionId };
+    }
+
+    throw new SecretsManagerError('Secret has no value', undefined, { operation: 'getSecret', secretId });
+  }
+
+  private async moveVersionStage(secretName: string, stages: Record<string, string[]>, versionId: string, versionStage: string): Promise<VersionStageMoveResult> {
+    const holder = Object.keys(stages).find(id => stages[id].includes(versionStage));
+
+    if (holder === versionId) {
+      return { versionStage, versionId };
+    }
+
+    await this.updateSecretVersionStage(secretName, versionStage, {
+      moveToVersionId: versionId,
+      removeFromVersionId: holder,
+    });
+    return { versionStage, versionId, removedFromVersionId: holder };
+  }
+
+  private clientFor(region: string): SecretsManagerClient {
+    // A local backend has no regions, so every request goes to it
+    if (this.hasBackend || region === this.clientConfig.region) {
+      return this.client;
+    }
+
+    let client = this.regionClients.get(region);
+    if (!client) {
+      client = new SecretsManagerClient({ ...this.clientConfig, region });
+      this.regionClients.set(region, client);
+    }
+    return client;
+  }
+
+  private async currentVersionChanged(secretName: string, versionId?: string): Promise<boolean> {
+    const stages = await this.getVersionStages(secretName);
+    return !(versionId && stages[versionId]?.includes('AWSCURRENT'));
   }
 
-  private formatError(message: string, error: unknown): SecretsManagerError {
-    if (error instanceof Error) {
-      return new SecretsManagerError(message, error);
+  private async withDeletionDate(secretName: string, error: SecretMarkedForDeletionError): Promise<SecretMarkedForDeletionError> {
+    try {
+      const { deletedDate } = await this.describeSecret(secretName);
+      if (!deletedDate) {
+        return error;
+      }
+      return new SecretMarkedForDeletionError(
+        `The requested secret is scheduled for deletion on ${deletedDate.toISOString()} and cannot be accessed.`,
+        error.originalError,
+        error,
+        deletedDate,
+      );
+    } catch {
+      return error;
     }
-    return new SecretsManagerError(message);
   }
+
+  private idempotencyToken(token?: string): string | undefined {
+    // The SDK generates a token per send, so attempts re-sent by our retry policy need a fixed one
+    return token ?? (this.retry ? randomUUID() : undefined);
+  }
+
+  private execute<T>(context: OperationContext, fn: (abortSignal?: AbortSignal) => Promise<T>): Promise<T> {
+    let attempts = 0;
+    const attempt = (abortSignal?: AbortSignal) => {
+      attempts++;
+      return fn(abortSignal);
+    };
+
+    const run = () => (this.retry ? withRetry(context.operation, attempt, this.retry) : attempt());
+    const limiter = this.limiter;
+    return this.observe(context, limiter ? () => limiter.run(run) : run, () => attempts);
+  }
+
+  private async observe<T>(context: OperationContext, run: () => Promise<T>, attempts: () => number = () => 0): Promise<T> {
+    if (this.hooks.length === 0) {
+      return run();
+    }
+
+    const start: OperationStartEvent = { ...context, startTime: Date.now() };
+    const onEnd = this.hooks.map(hook => callHook(() => hook.onStart?.(start)));
+    const finish = (end: OperationEndEvent) =>
+      this.hooks.forEach((hook, i) => {
+        const callback = onEnd[i];
+        callHook(() => hook.onEnd?.(end));
+        callHook(() => (typeof callback === 'function' ? callback(end) : undefined));
+      });
+
+    try {
+      const result = await run();
+      finish({ ...start, durationMs: Date.now() - start.startTime, outcome: 'success', attempts: attempts() });
+      return result;
+    } catch (error) {
+      // Only the error class and request details are reported; messages can quote AWS responses
+      const mapped = toSecretsManagerError(error, { operation: context.operation, secretId: context.secretId, message: 'Operation failed' });
+      finish({
+        ...start,
+        durationMs: Date.now() - start.startTime,
+        outcome: 'error',
+        attempts: attempts(),
+        errorName: mapped.name,
+        retryable: mapped.retryable,
+        statusCode: mapped.statusCode,
+        requestId: mapped.requestId,
+      });
+      throw error;
+    }
+  }
+
+  private throwIfAborted(signal: AbortSignal | undefined, operation: string): void {
+    if (signal?.aborted) {
+      throw new SecretOperationAbortedError('Operation aborted', signal.reason, { operation });
+    }
+  }
+}
+
+interface OperationContext {
+  operation: string;
+  secretId?: string;
+  cache?: CacheStatus;
+}
+
+function callHook<T>(fn: () => T): T | undefined {
+  try {
+    return fn();
+  } catch {
+    // A failing hook must never break the operation it observes
+    return undefined;
+  }
+}
+
+function matchesTagQuery(tags: Record<string, string>, query: TagQuery): boolean {
+  return Object.keys(query).every(key => {
+    const expected = query[key];
+    if (!(key in tags)) {
+      return false;
+    }
+    if (expected === true) {
+      return true;
+    }
+    return Array.isArray(expected) ? expected.includes(tags[key]) : tags[key] === expected;
+  });
+}
+
+function secretIdInRegion(secretId: string, region: string): string {
+  // Replicas keep the name and the random suffix; only the region part of the ARN differs
+  if (!secretId.startsWith('arn:')) {
+    return secretId;
+  }
+  const parts = secretId.split(':');
+  parts[3] = region;
+  return parts.join(':');
+}
+
+// The checks DeleteSecret applies, so a dry run fails where the real call would
+function validateDeleteOptions(secretName: string, options: DeleteSecretOptions): void {
+  const details = { operation: 'deleteSecret', secretId: secretName };
+  if (options.recoveryDays === undefined) {
+    return;
+  }
+  if (options.forceDelete) {
+    throw new InvalidSecretParameterError('Pass either forceDelete or recoveryDays, not both.', undefined, details);
+  }
+  if (!Number.isInteger(options.recoveryDays) || options.recoveryDays < 7 || options.recoveryDays > 30) {
+    throw new InvalidSecretParameterError('recoveryDays must be a whole number from 7 to 30.', undefined, details);
+  }
+}
+
+function shouldFailOver(error: SecretsManagerError): boolean {
+  // Throttling, server errors and timeouts, or no HTTP response at all (the region could not be reached)
+  return error.retryable || (error.name === 'SecretsManagerError' && error.statusCode === undefined);
 }
 
 export { FilterNameStringType };
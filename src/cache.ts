@@ -0,0 +1,135 @@
+import { CacheStats, SecretCacheOptions } from "./types";
+
+interface CacheEntry<V> {
+  value: V;
+  expiresAt: number;
+  staleUntil: number;
+}
+
+export type CacheLookup<V> =
+  | { status: "fresh"; value: V }
+  | { status: "stale"; value: V }
+  | { status: "miss" };
+
+/**
+ * Small in-memory LRU cache with TTL and stale-while-revalidate support.
+ * Entries are keyed by secret id plus version and stage so invalidation can drop
+ * every version of a secret at once.
+ */
+export class SecretCache<V> {
+  private entries = new Map<string, CacheEntry<V>>();
+  private refreshing = new Set<string>();
+  private invalidations = 0;
+  private invalidatedAt = new Map<string, number>();
+  private clearedAt = 0;
+  private hits = 0;
+  private misses = 0;
+  private readonly ttl: number;
+  private readonly maxEntries: number;
+  private readonly staleWhileRevalidate: number;
+
+  constructor(options: SecretCacheOptions = {}) {
+    this.ttl = options.ttl ?? 5 * 60 * 1000;
+    this.maxEntries = options.maxEntries ?? 1000;
+    this.staleWhileRevalidate = options.staleWhileRevalidate ?? 0;
+  }
+
+  static key(secretId: string, version?: string, stage?: string): string {
+    return `${SecretCache.prefix(secretId)}${version ?? ""}\u0000${stage ?? ""}`;
+  }
+
+  /**
+   * Start shared by the keys of every version of a secret.
+   */
+  static prefix(secretId: string): string {
+    return `${secretId}\u0000`;
+  }
+
+  /**
+   * Marks the start of a load. Passing it to set() drops the loaded value if the
+   * secret was invalidated while the load was running, e.g. by a concurrent write.
+   */
+  generation(): number {
+    return this.invalidations;
+  }
+
+  get(key: string): CacheLookup<V> {
+    const entry = this.entries.get(key);
+    const now = Date.now();
+
+    if (!entry || entry.staleUntil <= now) {
+      if (entry) this.entries.delete(key);
+      this.misses++;
+      return { status: "miss" };
+    }
+
+    // Re-insert to mark the entry as most recently used
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    this.hits++;
+
+    return entry.expiresAt > now
+      ? { status: "fresh", value: entry.value }
+      : { status: "stale", value: entry.value };
+  }
+
+  set(key: string, value: V, generation?: number): void {
+    if (generation !== undefined && this.invalidatedSince(key, generation)) return;
+
+    const now = Date.now();
+    this.entries.delete(key);
+    this.entries.set(key, {
+      value,
+      expiresAt: now + this.ttl,
+      staleUntil: now + this.ttl + this.staleWhileRevalidate,
+    });
+
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value as string;
+      this.entries.delete(oldest);
+    }
+  }
+
+  /**
+   * Runs a background refresh for a stale key unless one is already running.
+   * Failures are swallowed so the stale value keeps being served until the
+   * revalidation window closes.
+   */
+  revalidate(key: string, loader: () => Promise<V>): void {
+    if (this.refreshing.has(key)) return;
+    this.refreshing.add(key);
+    const generation = this.generation();
+    loader()
+      .then((value) => this.set(key, value, generation))
+      .catch(() => undefined)
+      .finally(() => this.refreshing.delete(key));
+  }
+
+  /**
+   * Removes every cached version of the given secret.
+   */
+  invalidate(secretId: string): void {
+    this.invalidatedAt.set(secretId, ++this.invalidations);
+    const prefix = SecretCache.prefix(secretId);
+    for (const key of Array.from(this.entries.keys())) {
+      if (key.startsWith(prefix)) {
+        this.entries.delete(key);
+      }
+    }
+  }
+
+  clear(): void {
+    this.entries.clear();
+    this.invalidatedAt.clear();
+    this.clearedAt = ++this.invalidations;
+  }
+
+  stats(): CacheStats {
+    return { hits: this.hits, misses: this.misses, size: this.entries.size };
+  }
+
+  private invalidatedSince(key: string, generation: number): boolean {
+    const secretId = key.slice(0, key.indexOf("\u0000"));
+    return this.clearedAt > generation || (this.invalidatedAt.get(secretId) ?? 0) > generation;
+  }
+}
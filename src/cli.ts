@@ -0,0 +1,369 @@
+import { readFile } from 'fs/promises';
+import { parseArgs } from 'util';
+import { AWSSecretsManager } from './aws-secret-manager';
+import { SecretsManagerError } from './error';
+import { SecretMetadata } from './types';
+import { parseSecretValue } from './utils';
+
+const MASK = '********';
+
+const USAGE = `Usage: aws-secrets <command> [options]
+
+Commands:
+  get <name>                 Print a secret value (masked unless --reveal)
+  put <name> [value|-]       Create or update a secret from an argument, --file or stdin
+  delete <name>              Schedule a secret for deletion
+  restore <name>             Cancel a scheduled deletion
+  list                       List secrets
+  describe <name>            Show a secret's metadata
+  versions <name>            List a secret's versions and staging labels
+  tag <name> <key=value>...  Add or update tags
+  untag <name> <key>...      Remove tags
+
+Options:
+  --key <key>                Print one key of a JSON secret (get)
+  --version-stage <stage>    Read the version with this staging label (get)
+  --version-id <id>          Read a specific version (get)
+  --reveal                   Print secret values in clear text (get)
+  --file <path>              Read the value from a file (put)
+  --description <text>       Description of the secret (put)
+  --force                    Delete without a recovery window (delete)
+  --recovery-days <days>     Recovery window in days, 7-30 (delete)
+  --dry-run                  Show what would be deleted without deleting (delete)
+  --filter <text>            Only list secrets whose name matches (list)
+  --include-deleted          Include secrets scheduled for deletion (list)
+  --output <table|json>      Output format (default: table)
+  --region <region>          AWS region
+  -h, --help                 Show this help`;
+
+const OPTIONS = {
+  key: { type: 'string' },
+  'version-stage': { type: 'string' },
+  'version-id': { type: 'string' },
+  reveal: { type: 'boolean' },
+  file: { type: 'string' },
+  description: { type: 'string' },
+  force: { type: 'boolean' },
+  'recovery-days': { type: 'string' },
+  'dry-run': { type: 'boolean' },
+  filter: { type: 'string' },
+  'include-deleted': { type: 'boolean' },
+  output: { type: 'string', default: 'table' },
+  region: { type: 'string' },
+  help: { type: 'boolean', short: 'h' },
+} as const;
+
+type CliValues = ReturnType<typeof parseArgs<{ options: typeof OPTIONS; allowPositionals: true }>>['values'];
+
+export interface CliIO {
+  stdout: (text: string) => void;
+  stderr: (text: string) => void;
+  /** Reads standard input to the end; resolves to an empty string when nothing is piped in */
+  readStdin: () => Promise<string>;
+}
+
+class CliUsageError extends Error {}
+
+const processIO: CliIO = {
+  stdout: text => process.stdout.write(`${text}\n`),
+  stderr: text => process.stderr.write(`${text}\n`),
+  readStdin: async () => {
+    if (process.stdin.isTTY) {
+      return '';
+    }
+    const chunks: Buffer[] = [];
+    for await (const chunk of process.stdin) {
+      chunks.push(Buffer.from(chunk));
+    }
+    return Buffer.concat(chunks).toString('utf8');
+  },
+};
+
+/**
+ * Runs one CLI command. Returns the exit code: 0 on success, 1 when the operation fails and 2 for usage errors.
+ * @param {string[]} argv - Arguments after the executable name
+ * @param {CliIO} io - Output streams and stdin reader
+ * @param {AWSSecretsManager} secretsManager - Client to use instead of one built from `--region`
+ * @returns {Promise<number>} Process exit code
+ */
+export async function runCli(argv: string[], io: CliIO = processIO, secretsManager?: AWSSecretsManager): Promise<number> {
+  try {
+    const { values, positionals } = parseArgs({ args: argv, options: OPTIONS, allowPositionals: true });
+    const [command, ...args] = positionals;
+
+    if (values.help || !command) {
+      io.stdout(USAGE);
+      return command || values.help ? 0 : 2;
+    }
+    if (values.output !== 'table' && values.output !== 'json') {
+      throw new CliUsageError(`Unknown output format "${values.output}". Use table or json.`);
+    }
+
+    const client = secretsManager || new AWSSecretsManager({ region: values.region });
+    const context = { client, values, args, io };
+
+    switch (command) {
+      case 'get':
+        return await getCommand(context);
+      case 'put':
+        return await putCommand(context);
+      case 'delete':
+        return await deleteCommand(context);
+      case 'restore':
+        return await restoreCommand(context);
+      case 'list':
+        return await listCommand(context);
+      case 'describe':
+        return await describeCommand(context);
+      case 'versions':
+        return await versionsCommand(context);
+      case 'tag':
+        return await tagCommand(context);
+      case 'untag':
+        return await untagCommand(context);
+      default:
+        throw new CliUsageError(`Unknown command "${command}".`);
+    }
+  } catch (error) {
+    if (error instanceof CliUsageError || (error as NodeJS.ErrnoException).code?.startsWith('ERR_PARSE_ARGS')) {
+      io.stderr(`Error: ${(error as Error).message}\n\n${USAGE}`);
+      return 2;
+    }
+    io.stderr(`Error: ${error instanceof Error ? error.message : String(error)}`);
+    return 1;
+  }
+}
+
+interface CommandContext {
+  client: AWSSecretsManager;
+  values: CliValues;
+  args: string[];
+  io: CliIO;
+}
+
+async function getCommand({ client, values, args, io }: CommandContext): Promise<number> {
+  const name = requireName(args);
+  const secret: string | Buffer = await client.getSecret(name, {
+    parse: false,
+    version: values['version-id'],
+    versionStage: values['version-stage'],
+  });
+  const mask = (value: unknown) => (values.reveal ? value : MASK);
+
+  if (Buffer.isBuffer(secret)) {
+    const encoded = mask(secret.toString('base64'));
+    io.stdout(values.output === 'json' ? JSON.stringify(encoded) : String(encoded));
+    return 0;
+  }
+
+  const parsed = parseSecretValue<unknown>(secret);
+  if (values.key !== undefined) {
+    if (!isObject(parsed) || !(values.key in parsed)) {
+      throw new SecretsManagerError(`Secret "${name}" has no key "${values.key}".`);
+    }
+    const value = mask(parsed[values.key]);
+    io.stdout(values.output === 'json' || typeof value !== 'string' ? JSON.stringify(value) : value);
+    return 0;
+  }
+
+  if (isObject(parsed)) {
+    const masked = Object.keys(parsed).reduce((acc, key) => {
+      acc[key] = mask(parsed[key]);
+      return acc;
+    }, {} as Record<string, unknown>);
+    io.stdout(
+      values.output === 'json'
+        ? JSON.stringify(masked, null, 2)
+        : formatTable(['KEY', 'VALUE'], Object.entries(masked).map(([key, value]) => [key, typeof value === 'string' ? value : JSON.stringify(value)])),
+    );
+    return 0;
+  }
+
+  io.stdout(values.output === 'json' ? JSON.stringify(mask(secret)) : String(mask(secret)));
+  return 0;
+}
+
+async function putCommand({ client, values, args, io }: CommandContext): Promise<number> {
+  const name = requireName(args);
+  let value: string;
+
+  if (values.file) {
+    value = await readFile(values.file, 'utf8');
+  } else if (args[1] !== undefined && args[1] !== '-') {
+    value = args[1];
+  } else {
+    value = (await io.readStdin()).replace(/\r?\n$/, '');
+  }
+  if (!value) {
+    throw new CliUsageError('No secret value given. Pass it as an argument, with --file or on stdin.');
+  }
+
+  const exists = await client.secretExists(name);
+  const options = { description: values.description };
+  const arn = exists ? await client.updateSecret(name, value, options) : await client.createSecret(name, value, options);
+  const action = exists ? 'updated' : 'created';
+
+  io.stdout(values.output === 'json' ? JSON.stringify({ name, arn, action }, null, 2) : `Secret "${name}" ${action} (${arn})`);
+  return 0;
+}
+
+async function deleteCommand({ client, values, args, io }: CommandContext): Promise<number> {
+  const name = requireName(args);
+  const recoveryDays = values['recovery-days'] !== undefined ? Number(values['recovery-days']) : undefined;
+  if (recoveryDays !== undefined && !Number.isInteger(recoveryDays)) {
+    throw new CliUsageError('--recovery-days must be a whole number of days.');
+  }
+
+  const result = await client.deleteSecret(name, { forceDelete: values.force, recoveryDays, dryRun: values['dry-run'] });
+
+  if (values.output === 'json') {
+    io.stdout(JSON.stringify(result, null, 2));
+  } else if (result.alreadyScheduled) {
+    io.stdout(`Secret "${name}" is already scheduled for deletion on ${formatDate(result.deletionDate)}`);
+  } else if (values.force) {
+    io.stdout(`${result.dryRun ? 'Would delete' : 'Deleted'} secret "${name}" without recovery`);
+  } else {
+    io.stdout(`${result.dryRun ? 'Would schedule' : 'Scheduled'} secret "${name}" for deletion on ${formatDate(result.deletionDate)}`);
+  }
+  return 0;
+}
+
+async function restoreCommand({ client, values, args, io }: CommandContext): Promise<number> {
+  const name = requireName(args);
+  const result = await client.restoreSecret(name);
+
+  io.stdout(values.output === 'json' ? JSON.stringify(result, null, 2) : `Restored secret "${name}"`);
+  return 0;
+}
+
+async function listCommand({ client, values, io }: CommandContext): Promise<number> {
+  const secrets: SecretMetadata[] = [];
+  let nextToken: string | undefined;
+
+  do {
+    const page = await client.listSecrets({
+      includeMetadata: true,
+      includePlannedDeletion: values['include-deleted'],
+      filters: values.filter ? [{ Key: 'name', Values: [values.filter] }] : undefined,
+      nextToken,
+    });
+    secrets.push(...(page.secrets || []));
+    nextToken = page.nextToken;
+  } while (nextToken);
+
+  if (values.output === 'json') {
+    io.stdout(JSON.stringify(secrets, null, 2));
+    return 0;
+  }
+
+  const headers = ['NAME', 'DESCRIPTION', 'LAST CHANGED'];
+  const rows = secrets.map(secret => [secret.name || '', secret.description || '', formatDate(secret.lastChangedDate)]);
+  if (values['include-deleted']) {
+    headers.push('DELETED');
+    secrets.forEach((secret, index) => rows[index].push(formatDate(secret.deletedDate)));
+  }
+  io.stdout(formatTable(headers, rows));
+  return 0;
+}
+
+async function describeCommand({ client, values, args, io }: CommandContext): Promise<number> {
+  const metadata = await client.describeSecret(requireName(args));
+
+  if (values.output === 'json') {
+    io.stdout(JSON.stringify(metadata, null, 2));
+    return 0;
+  }
+
+  const rows: string[][] = [
+    ['Name', metadata.name || ''],
+    ['ARN', metadata.arn || ''],
+    ['Description', metadata.description || ''],
+    ['KMS key', metadata.kmsKeyId || ''],
+    ['Rotation', metadata.rotationEnabled ? `enabled (${metadata.rotationLambdaArn || 'managed'})` : 'disabled'],
+    ['Created', formatDate(metadata.createdDate)],
+    ['Last changed', formatDate(metadata.lastChangedDate)],
+    ['Last accessed', formatDate(metadata.lastAccessedDate)],
+    ['Deleted', formatDate(metadata.deletedDate)],
+    ['Tags', Object.entries(metadata.tags).map(([key, value]) => `${key}=${value}`).join(', ')],
+  ];
+  io.stdout(formatTable(['FIELD', 'VALUE'], rows.filter(([, value]) => value !== '')));
+  return 0;
+}
+
+async function versionsCommand({ client, values, args, io }: CommandContext): Promise<number> {
+  const name = requireName(args);
+  const versions = await client.getSecretVersions(name);
+
+  io.stdout(
+    values.output === 'json'
+      ? JSON.stringify(versions, null, 2)
+      : formatTable(
+          ['VERSION ID', 'STAGES', 'CREATED'],
+          versions.map(version => [version.versionId, version.versionStages.join(', '), formatDate(version.createdDate)]),
+        ),
+  );
+  return 0;
+}
+
+async function tagCommand({ client, values, args, io }: CommandContext): Promise<number> {
+  const name = requireName(args);
+  if (args.length < 2) {
+    throw new CliUsageError('Give at least one tag as key=value.');
+  }
+
+  const tags = args.slice(1).reduce((acc, pair) => {
+    const separator = pair.indexOf('=');
+    if (separator <= 0) {
+      throw new CliUsageError(`Invalid tag "${pair}". Use key=value.`);
+    }
+    acc[pair.slice(0, separator)] = pair.slice(separator + 1);
+    return acc;
+  }, {} as Record<string, string>);
+
+  const result = await client.tagSecret(name, tags);
+  io.stdout(values.output === 'json' ? JSON.stringify(result, null, 2) : result.message);
+  return 0;
+}
+
+async function untagCommand({ client, values, args, io }: CommandContext): Promise<number> {
+  const name = requireName(args);
+  if (args.length < 2) {
+    throw new CliUsageError('Give at least one tag key to remove.');
+  }
+
+  const result = await client.untagSecret(name, args.slice(1));
+  io.stdout(values.output === 'json' ? JSON.stringify(result, null, 2) : result.message);
+  return 0;
+}
+
+function requireName(args: string[]): string {
+  if (!args[0]) {
+    throw new CliUsageError('Missing secret name.');
+  }
+  return args[0];
+}
+
+function formatTable(headers: string[], rows: string[][]): string {
+  const widths = headers.map((header, column) => Math.max(header.length, ...rows.map(row => (row[column] || '').length)));
+  const format = (cells: string[]) =>
+    cells
+      .map((cell, column) => (cell || '').padEnd(widths[column]))
+      .join('  ')
+      .trimEnd();
+
+  return [format(headers), ...rows.map(format)].join('\n');
+}
+
+function formatDate(date?: Date): string {
+  return date ? date.toISOString() : '';
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+if (require.main === module) {
+  runCli(process.argv.slice(2)).then(code => {
+    process.exitCode = code;
+  });
+}
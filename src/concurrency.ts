@@ -0,0 +1,90 @@
+/**
+ * Runs at most `limit` tasks at once; further tasks wait in a first-in, first-out queue.
+ */
+export class ConcurrencyLimiter {
+  private active = 0;
+  private queue: Array<() => void> = [];
+  private readonly limit: number;
+
+  constructor(limit: number) {
+    this.limit = Math.max(1, limit);
+  }
+
+  async run<T>(task: () => Promise<T>): Promise<T> {
+    await this.acquire();
+    try {
+      return await task();
+    } finally {
+      this.release();
+    }
+  }
+
+  private acquire(): Promise<void> {
+    if (this.active < this.limit) {
+      this.active++;
+      return Promise.resolve();
+    }
+    return new Promise((resolve) => this.queue.push(resolve));
+  }
+
+  private release(): void {
+    // Hand the slot straight to the next task so a new caller cannot overtake the queue
+    const next = this.queue.shift();
+    if (next) {
+      next();
+    } else {
+      this.active--;
+    }
+  }
+}
+
+/**
+ * Collects keys requested in the same tick and loads them with one batch call, DataLoader-style.
+ * Each batch holds at most `maxBatchSize` distinct keys.
+ */
+export class BatchLoader<K, V> {
+  private pending: Array<{ key: K; resolve: (value: V) => void; reject: (error: unknown) => void }> = [];
+  private readonly loadBatch: (keys: K[]) => Promise<Map<K, V | Error>>;
+  private readonly maxBatchSize: number;
+
+  constructor(loadBatch: (keys: K[]) => Promise<Map<K, V | Error>>, maxBatchSize: number) {
+    this.loadBatch = loadBatch;
+    this.maxBatchSize = maxBatchSize;
+  }
+
+  load(key: K): Promise<V> {
+    return new Promise<V>((resolve, reject) => {
+      this.pending.push({ key, resolve, reject });
+      if (this.pending.length === 1) {
+        // Wait for the current promise jobs too, so awaits in the same tick still join the batch
+        Promise.resolve().then(() => process.nextTick(() => this.dispatch()));
+      }
+    });
+  }
+
+  private dispatch(): void {
+    const requests = this.pending;
+    this.pending = [];
+
+    const keys = Array.from(new Set(requests.map((request) => request.key)));
+    for (let i = 0; i < keys.length; i += this.maxBatchSize) {
+      const batch = keys.slice(i, i + this.maxBatchSize);
+      const waiting = requests.filter((request) => batch.includes(request.key));
+
+      this.loadBatch(batch).then(
+        (results) =>
+          waiting.forEach((request) => {
+            const result = results.get(request.key);
+            if (result instanceof Error) {
+              request.reject(result);
+            } else if (result === undefined) {
+              request.reject(new Error("Batch load returned no result for a requested key"));
+            } else {
+              request.resolve(result);
+            }
+          }),
+        (error) => waiting.forEach((request) => request.reject(error))
+      );
+    }
+  }
+}
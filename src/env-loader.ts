@@ -0,0 +1,179 @@
+import { AWSSecretsManager } from './aws-secret-manager';
+import { SecretLoadError, SecretsManagerError } from './error';
+import { MissingSecretEntry, SecretEnvLoaderOptions, SecretEnvMapping } from './types';
+import { parseSecretValue } from './utils';
+
+export class SecretEnvLoader {
+  private mappings: SecretEnvMapping[];
+  private options: SecretEnvLoaderOptions;
+  private secretsManager: AWSSecretsManager;
+
+  /**
+   * Creates a loader that copies secret values into environment variables or a config object.
+   * @param {SecretEnvMapping[] | Record<string, string>} mappings - Mapping list, or variable names mapped to 'secret-name' or 'secret-name#jsonKey'
+   * @param {SecretEnvLoaderOptions} options - Optional prefix and overwrite policy
+   * @param {AWSSecretsManager} secretsManager - Client used to fetch the secrets
+   */
+  constructor(
+    mappings: SecretEnvMapping[] | Record<string, string>,
+    options: SecretEnvLoaderOptions = {},
+    secretsManager: AWSSecretsManager = new AWSSecretsManager(),
+  ) {
+    this.mappings = Array.isArray(mappings) ? mappings : Object.entries(mappings).map(([env, source]) => parseSource(env, source));
+    this.options = options;
+    this.secretsManager = secretsManager;
+  }
+
+  /**
+   * Fetches every mapped secret in batches and returns the resulting variables.
+   * Throws one SecretLoadError listing every missing required secret or key.
+   * @returns {Promise<Readonly<T>>} Frozen object of variable names to values
+   */
+  async load<T extends Record<string, string> = Record<string, string>>(): Promise<Readonly<T>> {
+    const { secrets, failures } = await this.fetch(Array.from(new Set(this.mappings.map(mapping => mapping.secretId))));
+
+    const values: Record<string, string> = {};
+    const missing: MissingSecretEntry[] = [];
+    const prefix = this.options.prefix || '';
+
+    for (const mapping of this.mappings) {
+      const required = mapping.required ?? true;
+      const report = (reason: string) => {
+        if (required) {
+          missing.push({ secretId: mapping.secretId, key: mapping.key, reason });
+        }
+      };
+
+      if (!secrets.has(mapping.secretId)) {
+        report(failures.get(mapping.secretId) || 'secret not found');
+        continue;
+      }
+
+      const raw = secrets.get(mapping.secretId);
+      const secret = typeof raw === 'string' && mapping.key !== undefined ? parseSecretValue(raw) : raw;
+
+      if (mapping.key === '*') {
+        if (!isObject(secret)) {
+          report('secret is not a JSON object');
+          continue;
+        }
+        for (const [key, value] of Object.entries(secret)) {
+          values[prefix + toEnvName(key)] = stringify(value);
+        }
+        continue;
+      }
+
+      if (mapping.key !== undefined) {
+        if (!isObject(secret) || !(mapping.key in secret)) {
+          report('key not found');
+          continue;
+        }
+        values[prefix + (mapping.env || toEnvName(mapping.key))] = stringify(secret[mapping.key]);
+        continue;
+      }
+
+      values[prefix + (mapping.env || toEnvName(mapping.secretId))] = stringify(secret);
+    }
+
+    if (missing.length > 0) {
+      const list = missing.map(entry => (entry.key ? `${entry.secretId}#${entry.key}` : entry.secretId));
+      throw new SecretLoadError(`Failed to load ${missing.length} secret value(s): ${list.join(', ')}`, missing);
+    }
+
+    return Object.freeze(values) as Readonly<T>;
+  }
+
+  private async fetch(secretIds: string[]): Promise<{ secrets: Map<string, unknown>; failures: Map<string, string> }> {
+    const secrets = new Map<string, unknown>();
+    const failures = new Map<string, string>();
+
+    // Batch results are keyed by name, so ARNs are fetched one by one
+    const names = secretIds.filter(secretId => !secretId.startsWith('arn:'));
+    const arns = secretIds.filter(secretId => secretId.startsWith('arn:'));
+
+    if (names.length > 0) {
+      const result = await this.secretsManager.batchGetAllSecrets({ secretIds: names, parse: false });
+      for (const secretId of names) {
+        if (secretId in result.secrets) {
+          secrets.set(secretId, result.secrets[secretId]);
+        } else {
+          const error = result.errors.find(entry => entry.secretId === secretId);
+          failures.set(secretId, error?.errorCode || 'secret not found');
+        }
+      }
+    }
+
+    await Promise.all(
+      arns.map(async secretId => {
+        try {
+          secrets.set(secretId, await this.secretsManager.getSecret(secretId, { parse: false }));
+        } catch (error) {
+          failures.set(secretId, error instanceof Error ? error.name : 'unknown error');
+        }
+      }),
+    );
+
+    return { secrets, failures };
+  }
+
+  /**
+   * Loads the secrets and copies them into the environment according to the overwrite policy.
+   * @param {NodeJS.ProcessEnv} env - Environment to populate (default: process.env)
+   * @returns {Promise<Readonly<Record<string, string>>>} Frozen object of the loaded variables
+   */
+  async populateEnv(env: NodeJS.ProcessEnv = process.env): Promise<Readonly<Record<string, string>>> {
+    const values = await this.load();
+    const policy = this.options.overwrite || 'skip';
+
+    if (policy === 'error') {
+      const conflicts = Object.keys(values).filter(name => env[name] !== undefined);
+      if (conflicts.length > 0) {
+        throw new SecretsManagerError(`Environment variables already set: ${conflicts.join(', ')}`);
+      }
+    }
+
+    for (const [name, value] of Object.entries(values)) {
+      if (policy === 'skip' && env[name] !== undefined) {
+        continue;
+      }
+      env[name] = value;
+    }
+
+    return values;
+  }
+}
+
+function parseSource(env: string, source: string): SecretEnvMapping {
+  const optional = source.endsWith('?');
+  const spec = optional ? source.slice(0, -1) : source;
+  const separator = spec.lastIndexOf('#');
+
+  return {
+    secretId: separator === -1 ? spec : spec.slice(0, separator),
+    key: separator === -1 ? undefined : spec.slice(separator + 1),
+    env,
+    required: !optional,
+  };
+}
+
+function toEnvName(name: string): string {
+  return name
+    .replace(/([a-z0-9])([A-Z])/g, '$1_$2')
+    .replace(/[^A-Za-z0-9]+/g, '_')
+    .replace(/^_+|_+$/g, '')
+    .toUpperCase();
+}
+
+function stringify(value: unknown): string {
+  if (typeof value === 'string') {
+    return value;
+  }
+  if (Buffer.isBuffer(value)) {
+    return value.toString('base64');
+  }
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value) && !Buffer.isBuffer(value);
+}
@@ -1,10 +1,233 @@
+export interface SecretsManagerErrorDetails {
+  secretId?: string;
+  operation?: string;
+  requestId?: string;
+  statusCode?: number;
+  retryable?: boolean;
+}
+
 export class SecretsManagerError extends Error {
+  public readonly secretId?: string;
+  public readonly operation?: string;
+  public readonly requestId?: string;
+  public readonly statusCode?: number;
+  public readonly retryable: boolean;
+
   constructor(
     message: string,
     public readonly originalError?: Error,
+    details: SecretsManagerErrorDetails = {},
   ) {
     super(message);
     this.name = "SecretsManagerError";
-    Object.setPrototypeOf(this, SecretsManagerError.prototype);
+    this.secretId = details.secretId;
+    this.operation = details.operation;
+    this.requestId = details.requestId;
+    this.statusCode = details.statusCode;
+    this.retryable = details.retryable ?? false;
+    Object.setPrototypeOf(this, new.target.prototype);
+  }
+}
+
+export class SecretNotFoundError extends SecretsManagerError {
+  constructor(message: string, originalError?: Error, details?: SecretsManagerErrorDetails) {
+    super(message, originalError, details);
+    this.name = "SecretNotFoundError";
+  }
+}
+
+export class SecretAccessDeniedError extends SecretsManagerError {
+  constructor(message: string, originalError?: Error, details?: SecretsManagerErrorDetails) {
+    super(message, originalError, details);
+    this.name = "SecretAccessDeniedError";
+  }
+}
+
+export class SecretThrottledError extends SecretsManagerError {
+  constructor(message: string, originalError?: Error, details?: SecretsManagerErrorDetails) {
+    super(message, originalError, { ...details, retryable: true });
+    this.name = "SecretThrottledError";
+  }
+}
+
+export class SecretMarkedForDeletionError extends SecretsManagerError {
+  constructor(
+    message: string,
+    originalError?: Error,
+    details?: SecretsManagerErrorDetails,
+    public readonly deletionDate?: Date,
+  ) {
+    super(message, originalError, details);
+    this.name = "SecretMarkedForDeletionError";
+  }
+}
+
+export class SecretAlreadyExistsError extends SecretsManagerError {
+  constructor(message: string, originalError?: Error, details?: SecretsManagerErrorDetails) {
+    super(message, originalError, details);
+    this.name = "SecretAlreadyExistsError";
+  }
+}
+
+export class InvalidSecretParameterError extends SecretsManagerError {
+  constructor(message: string, originalError?: Error, details?: SecretsManagerErrorDetails) {
+    super(message, originalError, details);
+    this.name = "InvalidSecretParameterError";
+  }
+}
+
+export class SecretConflictError extends SecretsManagerError {
+  constructor(message: string, originalError?: Error, details?: SecretsManagerErrorDetails) {
+    super(message, originalError, details);
+    this.name = "SecretConflictError";
+  }
+}
+
+export class SecretOperationAbortedError extends SecretsManagerError {
+  constructor(
+    message: string,
+    /** The AbortSignal's reason */
+    public readonly reason?: unknown,
+    details?: SecretsManagerErrorDetails,
+  ) {
+    super(message, reason instanceof Error ? reason : undefined, details);
+    this.name = "SecretOperationAbortedError";
+  }
+}
+
+export class SecretValidationError extends SecretsManagerError {
+  constructor(
+    message: string,
+    public readonly issues: Array<{ path: string; message: string }> = [],
+    details?: SecretsManagerErrorDetails,
+  ) {
+    super(message, undefined, details);
+    this.name = "SecretValidationError";
+  }
+
+  /** Paths of the fields that failed validation */
+  get fields(): string[] {
+    return this.issues.map((issue) => issue.path);
+  }
+}
+
+export class SecretLoadError extends SecretsManagerError {
+  constructor(
+    message: string,
+    public readonly missing: Array<{ secretId: string; key?: string; reason: string }> = [],
+  ) {
+    super(message, undefined, { operation: "loadSecrets" });
+    this.name = "SecretLoadError";
+  }
+}
+
+export class SecretReferenceError extends SecretsManagerError {
+  constructor(
+    message: string,
+    public readonly unresolved: Array<{ reference: string; reason: string }> = [],
+  ) {
+    super(message, undefined, { operation: "resolveReferences" });
+    this.name = "SecretReferenceError";
+  }
+}
+
+export interface ErrorContext {
+  /** Name of the AWSSecretsManager method that failed */
+  operation: string;
+  secretId?: string;
+  /** Message used when the error does not map to a more specific type */
+  message: string;
+}
+
+interface AwsErrorShape extends Error {
+  $metadata?: { requestId?: string; httpStatusCode?: number };
+  $retryable?: unknown;
+  code?: string;
+}
+
+export const RETRYABLE_ERROR_NAMES = [
+  "ThrottlingException",
+  "InternalServiceError",
+  "ServiceUnavailable",
+  "RequestTimeout",
+  "TimeoutError",
+];
+
+// Node.js socket errors raised when a connection drops or cannot be opened
+const TRANSIENT_ERROR_CODES = ["ECONNRESET", "ECONNREFUSED", "EPIPE", "ETIMEDOUT", "EAI_AGAIN"];
+
+/**
+ * Whether an error is worth retrying: throttling, timeouts, 5xx responses, errors the SDK marks
+ * as retryable and dropped connections.
+ */
+export function isRetryableError(error: unknown): boolean {
+  if (error instanceof SecretsManagerError) {
+    return error.retryable;
+  }
+  if (!(error instanceof Error)) {
+    return false;
+  }
+
+  const awsError = error as AwsErrorShape;
+  const statusCode = awsError.$metadata?.httpStatusCode;
+  return (
+    !!awsError.$retryable ||
+    RETRYABLE_ERROR_NAMES.includes(error.name) ||
+    (statusCode !== undefined && statusCode >= 500) ||
+    (awsError.code !== undefined && TRANSIENT_ERROR_CODES.includes(awsError.code))
+  );
+}
+
+/**
+ * Maps any error thrown by the AWS SDK onto the SecretsManagerError hierarchy.
+ * Errors that already are SecretsManagerErrors are returned unchanged.
+ */
+export function toSecretsManagerError(error: unknown, context: ErrorContext): SecretsManagerError {
+  if (error instanceof SecretsManagerError) {
+    return error;
+  }
+  if (!(error instanceof Error)) {
+    return new SecretsManagerError(context.message, undefined, {
+      secretId: context.secretId,
+      operation: context.operation,
+    });
+  }
+
+  const awsError = error as AwsErrorShape;
+  const statusCode = awsError.$metadata?.httpStatusCode;
+  const details: SecretsManagerErrorDetails = {
+    secretId: context.secretId,
+    operation: context.operation,
+    requestId: awsError.$metadata?.requestId,
+    statusCode,
+    retryable: isRetryableError(error),
+  };
+  const subject = context.secretId ? `Secret "${context.secretId}"` : "Secret";
+
+  switch (error.name) {
+    case "ResourceNotFoundException":
+      return new SecretNotFoundError(`${subject} not found.`, error, details);
+    case "AccessDeniedException":
+      return new SecretAccessDeniedError("Access denied to the requested secret.", error, details);
+    case "ThrottlingException":
+      return new SecretThrottledError("Request throttled. Try again later.", error, details);
+    case "ResourceExistsException":
+      return new SecretAlreadyExistsError(`${subject} already exists.`, error, details);
+    case "InvalidRequestException":
+      if (/(marked|scheduled) for deletion/i.test(error.message)) {
+        return new SecretMarkedForDeletionError(
+          "The requested secret is marked for deletion and cannot be accessed.",
+          error,
+          details,
+        );
+      }
+      return new InvalidSecretParameterError(`${context.message}: ${error.message}`, error, details);
+    case "InvalidParameterException":
+    case "ValidationException":
+    case "MalformedPolicyDocumentException":
+    case "PublicPolicyException":
+      return new InvalidSecretParameterError(`${context.message}: ${error.message}`, error, details);
+    default:
+      return new SecretsManagerError(context.message, error, details);
   }
 }
@@ -0,0 +1,168 @@
+import { createCipheriv, createDecipheriv, randomBytes, scrypt } from 'crypto';
+import { mkdir, readFile, rename, stat, unlink, writeFile } from 'fs/promises';
+import { dirname } from 'path';
+import { promisify } from 'util';
+import { SecretsManagerError } from './error';
+import { InMemorySecretsBackend, StoredSecret } from './memory-backend';
+import { sleep } from './retry';
+import { FileBackendOptions } from './types';
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: Buffer, keylen: number) => Promise<Buffer>;
+
+const LOCK_RETRY_DELAY = 20;
+const LOCK_TIMEOUT = 10 * 1000;
+// A lock older than this was left behind by a process that crashed while holding it
+const LOCK_STALE_AFTER = 30 * 1000;
+
+interface EncryptedFile {
+  version: 1;
+  salt: string;
+  iv: string;
+  authTag: string;
+  data: string;
+}
+
+/**
+ * Stores secrets in a local JSON file encrypted with AES-256-GCM. The file is read before and
+ * written after every command while holding a `<path>.lock` file, so several instances and
+ * processes can share it without losing each other's writes.
+ */
+export class FileSecretsBackend extends InMemorySecretsBackend {
+  private filePath: string;
+  private passphrase: string;
+  private salt?: Buffer;
+  private keys = new Map<string, Buffer>();
+  private queue: Promise<unknown> = Promise.resolve();
+
+  /**
+   * Creates a backend for an encrypted secrets file.
+   * @param {FileBackendOptions} options - File path, passphrase, and optional region and account ID used in ARNs
+   */
+  constructor(options: FileBackendOptions) {
+    super(options);
+    if (!options.passphrase) {
+      throw new SecretsManagerError('A passphrase is required to encrypt the secrets file.');
+    }
+    this.filePath = options.path;
+    this.passphrase = options.passphrase;
+  }
+
+  /**
+   * Loads the file, handles one command and saves the file if the command changed anything.
+   * Commands are processed one at a time.
+   * @param {{ input: object }} command - Secrets Manager SDK command
+   * @param {{ abortSignal?: AbortSignal }} options - Optional AbortSignal
+   * @returns {Promise<any>} Command output
+   */
+  send(command: { input: object }, options: { abortSignal?: AbortSignal } = {}): Promise<any> {
+    const result = this.queue.then(() => this.sendLocked(command, options));
+    this.queue = result.catch(() => undefined);
+    return result;
+  }
+
+  private async sendLocked(command: { input: object }, options: { abortSignal?: AbortSignal }): Promise<any> {
+    const unlock = await this.lock();
+    try {
+      this.secrets = await this.load();
+      const before = JSON.stringify(this.secrets);
+
+      try {
+        return await super.send(command, options);
+      } finally {
+        if (JSON.stringify(this.secrets) !== before) {
+          await this.save();
+        }
+      }
+    } finally {
+      await unlock();
+    }
+  }
+
+  private async lock(): Promise<() => Promise<void>> {
+    const lockPath = `${this.filePath}.lock`;
+    const deadline = Date.now() + LOCK_TIMEOUT;
+    await mkdir(dirname(this.filePath), { recursive: true });
+
+    for (;;) {
+      try {
+        // 'wx' fails if the file exists, so only one process at a time gets past this
+        await writeFile(lockPath, String(process.pid), { flag: 'wx' });
+        return () => unlink(lockPath).catch(() => undefined);
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'EEXIST') {
+          throw new SecretsManagerError(`Failed to lock secrets file "${this.filePath}"`, error as Error);
+        }
+      }
+
+      if (await isStale(lockPath)) {
+        await unlink(lockPath).catch(() => undefined);
+      } else if (Date.now() >= deadline) {
+        throw new SecretsManagerError(`Timed out waiting for the lock on secrets file "${this.filePath}"`);
+      } else {
+        await sleep(LOCK_RETRY_DELAY);
+      }
+    }
+  }
+
+  private async load(): Promise<StoredSecret[]> {
+    let content: string;
+    try {
+      content = await readFile(this.filePath, 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw new SecretsManagerError(`Failed to read secrets file "${this.filePath}"`, error as Error);
+    }
+
+    try {
+      const file: EncryptedFile = JSON.parse(content);
+      this.salt = Buffer.from(file.salt, 'base64');
+      const decipher = createDecipheriv('aes-256-gcm', await this.deriveKey(this.salt), Buffer.from(file.iv, 'base64'));
+      decipher.setAuthTag(Buffer.from(file.authTag, 'base64'));
+      const data = Buffer.concat([decipher.update(Buffer.from(file.data, 'base64')), decipher.final()]);
+      return JSON.parse(data.toString('utf8')).secrets;
+    } catch (error) {
+      // Wrong passphrases and tampered files both fail GCM authentication
+      throw new SecretsManagerError(`Failed to decrypt secrets file "${this.filePath}". Check the passphrase.`, error as Error);
+    }
+  }
+
+  private async save(): Promise<void> {
+    this.salt = this.salt || randomBytes(16);
+    const iv = randomBytes(12);
+    const cipher = createCipheriv('aes-256-gcm', await this.deriveKey(this.salt), iv);
+    const data = Buffer.concat([cipher.update(JSON.stringify({ secrets: this.secrets }), 'utf8'), cipher.final()]);
+    const file: EncryptedFile = {
+      version: 1,
+      salt: this.salt.toString('base64'),
+      iv: iv.toString('base64'),
+      authTag: cipher.getAuthTag().toString('base64'),
+      data: data.toString('base64'),
+    };
+
+    // Write to a temporary file first so a crash never leaves a truncated secrets file
+    const tempPath = `${this.filePath}.${process.pid}.${randomBytes(4).toString('hex')}.tmp`;
+    await writeFile(tempPath, JSON.stringify(file, null, 2), { mode: 0o600 });
+    await rename(tempPath, this.filePath);
+  }
+
+  private async deriveKey(salt: Buffer): Promise<Buffer> {
+    const cacheKey = salt.toString('base64');
+    let key = this.keys.get(cacheKey);
+    if (!key) {
+      key = await scryptAsync(this.passphrase, salt, 32);
+      this.keys.set(cacheKey, key);
+    }
+    return key;
+  }
+}
+
+async function isStale(lockPath: string): Promise<boolean> {
+  try {
+    return Date.now() - (await stat(lockPath)).mtimeMs > LOCK_STALE_AFTER;
+  } catch {
+    // Released in the meantime
+    return false;
+  }
+}
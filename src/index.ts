@@ -1,4 +1,14 @@
 import { AWSSecretsManager } from "./aws-secret-manager";
+import { SecretEnvLoader } from "./env-loader";
+import { FileSecretsBackend } from "./file-backend";
+import { InMemorySecretsBackend } from "./memory-backend";
+import { consoleLogger, jsonLogger, openTelemetryHooks } from "./observability";
+import { generateLocalPassword } from "./password";
+import { SecretRedactor, SecretValue } from "./redaction";
+import { ResourcePolicyBuilder } from "./resource-policy";
+import { SecretReferenceResolver, parseReferences } from "./reference-resolver";
+import { SecretRotationHandler } from "./rotation-handler";
+import { SecretWatcher } from "./secret-watcher";
 export * from "./error";
 export * from "./types";
-export { AWSSecretsManager };
+export { AWSSecretsManager, FileSecretsBackend, InMemorySecretsBackend, ResourcePolicyBuilder, SecretEnvLoader, SecretRedactor, SecretReferenceResolver, SecretRotationHandler, SecretValue, SecretWatcher, consoleLogger, generateLocalPassword, jsonLogger, openTelemetryHooks, parseReferences };
@@ -0,0 +1,649 @@
+import { randomBytes, randomUUID } from 'crypto';
+import {
+  BatchGetSecretValueCommand,
+  BatchGetSecretValueCommandInput,
+  CancelRotateSecretCommand,
+  CreateSecretCommand,
+  CreateSecretCommandInput,
+  DeleteResourcePolicyCommand,
+  DeleteSecretCommand,
+  DeleteSecretCommandInput,
+  DescribeSecretCommand,
+  Filter,
+  GetRandomPasswordCommand,
+  GetRandomPasswordCommandInput,
+  GetResourcePolicyCommand,
+  GetSecretValueCommand,
+  GetSecretValueCommandInput,
+  ListSecretsCommand,
+  ListSecretsCommandInput,
+  ListSecretVersionIdsCommand,
+  ListSecretVersionIdsCommandInput,
+  PutResourcePolicyCommand,
+  PutResourcePolicyCommandInput,
+  PutSecretValueCommand,
+  PutSecretValueCommandInput,
+  RestoreSecretCommand,
+  RotateSecretCommand,
+  RotateSecretCommandInput,
+  RotationRulesType,
+  TagResourceCommand,
+  TagResourceCommandInput,
+  UntagResourceCommand,
+  UntagResourceCommandInput,
+  UpdateSecretCommand,
+  UpdateSecretCommandInput,
+  UpdateSecretVersionStageCommand,
+  UpdateSecretVersionStageCommandInput,
+  ValidateResourcePolicyCommand,
+} from '@aws-sdk/client-secrets-manager';
+import { generateLocalPassword } from './password';
+import { LocalBackendOptions, SecretsManagerBackend } from './types';
+
+const DAY = 24 * 60 * 60 * 1000;
+const LIST_PAGE_LIMIT = 100;
+const BATCH_PAGE_LIMIT = 20;
+
+export interface StoredVersion {
+  versionId: string;
+  secretString?: string;
+  /** Base64-encoded so the state can be serialized as JSON */
+  secretBinary?: string;
+  stages: string[];
+  createdDate: number;
+  lastAccessedDate?: number;
+}
+
+export interface StoredSecret {
+  arn: string;
+  name: string;
+  description?: string;
+  kmsKeyId?: string;
+  tags: Array<{ Key: string; Value: string }>;
+  versions: StoredVersion[];
+  createdDate: number;
+  lastChangedDate: number;
+  lastAccessedDate?: number;
+  /** Date the secret is permanently deleted; set while it is in its recovery window */
+  deletionDate?: number;
+  rotationEnabled?: boolean;
+  rotationLambdaArn?: string;
+  rotationRules?: RotationRulesType;
+  lastRotatedDate?: number;
+  resourcePolicy?: string;
+}
+
+type SecretValueInput = { SecretString?: string; SecretBinary?: Uint8Array };
+
+/**
+ * Emulates Secrets Manager in memory: names and ARNs, version IDs and staging labels, tags, filters,
+ * pagination, recovery windows, resource policies and the AWS error names. Rotation settings are
+ * recorded, but no rotation Lambda is invoked, so rotating creates no new version.
+ */
+export class InMemorySecretsBackend implements SecretsManagerBackend {
+  protected secrets: StoredSecret[] = [];
+  private region: string;
+  private accountId: string;
+
+  /**
+   * Creates an empty in-memory backend.
+   * @param {LocalBackendOptions} options - Optional region and account ID used in generated ARNs
+   */
+  constructor(options: LocalBackendOptions = {}) {
+    this.region = options.region || 'us-east-1';
+    this.accountId = options.accountId || '000000000000';
+  }
+
+  /**
+   * Handles one Secrets Manager command and resolves to the same output shape as the AWS API.
+   * @param {{ input: object }} command - Secrets Manager SDK command
+   * @param {{ abortSignal?: AbortSignal }} options - Optional AbortSignal
+   * @returns {Promise<any>} Command output
+   */
+  async send(command: { input: object }, options: { abortSignal?: AbortSignal } = {}): Promise<any> {
+    if (options.abortSignal?.aborted) {
+      throw awsError('AbortError', 'Request aborted');
+    }
+
+    this.purgeExpired();
+
+    if (command instanceof CreateSecretCommand) return this.createSecret(command.input);
+    if (command instanceof GetSecretValueCommand) return this.getSecretValue(command.input);
+    if (command instanceof BatchGetSecretValueCommand) return this.batchGetSecretValue(command.input);
+    if (command instanceof PutSecretValueCommand) return this.putSecretValue(command.input);
+    if (command instanceof UpdateSecretCommand) return this.updateSecret(command.input);
+    if (command instanceof UpdateSecretVersionStageCommand) return this.updateSecretVersionStage(command.input);
+    if (command instanceof DescribeSecretCommand) return this.describeSecret(command.input.SecretId);
+    if (command instanceof ListSecretsCommand) return this.listSecrets(command.input);
+    if (command instanceof ListSecretVersionIdsCommand) return this.listSecretVersionIds(command.input);
+    if (command instanceof DeleteSecretCommand) return this.deleteSecret(command.input);
+    if (command instanceof RestoreSecretCommand) return this.restoreSecret(command.input.SecretId);
+    if (command instanceof TagResourceCommand) return this.tagResource(command.input);
+    if (command instanceof UntagResourceCommand) return this.untagResource(command.input);
+    if (command instanceof RotateSecretCommand) return this.rotateSecret(command.input);
+    if (command instanceof CancelRotateSecretCommand) return this.cancelRotateSecret(command.input.SecretId);
+    if (command instanceof GetResourcePolicyCommand) return this.getResourcePolicy(command.input.SecretId);
+    if (command instanceof PutResourcePolicyCommand) return this.putResourcePolicy(command.input);
+    if (command instanceof DeleteResourcePolicyCommand) return this.deleteResourcePolicy(command.input.SecretId);
+    if (command instanceof ValidateResourcePolicyCommand) return validateResourcePolicy(command.input.ResourcePolicy);
+    if (command instanceof GetRandomPasswordCommand) return getRandomPassword(command.input);
+
+    throw awsError('UnsupportedOperationException', 'This command is not supported by the local backend.');
+  }
+
+  private createSecret(input: CreateSecretCommandInput) {
+    const name = input.Name as string;
+    const existing = this.findSecret(name);
+
+    if (existing?.deletionDate) {
+      throw awsError('InvalidRequestException', "You can't create this secret because a secret with this name is already scheduled for deletion.");
+    }
+    if (existing) {
+      throw awsError('ResourceExistsException', `The operation failed because the secret ${name} already exists.`);
+    }
+
+    const now = Date.now();
+    const secret: StoredSecret = {
+      arn: `arn:aws:secretsmanager:${this.region}:${this.accountId}:secret:${name}-${randomSuffix()}`,
+      name,
+      description: input.Description,
+      kmsKeyId: input.KmsKeyId,
+      tags: (input.Tags || []).map(tag => ({ Key: tag.Key as string, Value: tag.Value ?? '' })),
+      versions: [],
+      createdDate: now,
+      lastChangedDate: now,
+    };
+    const version = hasValue(input) ? this.addVersion(secret, input, input.ClientRequestToken, ['AWSCURRENT']) : undefined;
+
+    this.secrets.push(secret);
+    return { ARN: secret.arn, Name: secret.name, VersionId: version?.versionId };
+  }
+
+  private getSecretValue(input: GetSecretValueCommandInput) {
+    const secret = this.requireActiveSecret(input.SecretId);
+    const version = this.requireVersion(secret, input.VersionId, input.VersionStage);
+
+    const today = startOfDay(Date.now());
+    secret.lastAccessedDate = today;
+    version.lastAccessedDate = today;
+
+    return {
+      ARN: secret.arn,
+      Name: secret.name,
+      VersionId: version.versionId,
+      ...valueOutput(version),
+      VersionStages: version.stages.slice(),
+      CreatedDate: new Date(version.createdDate),
+    };
+  }
+
+  private batchGetSecretValue(input: BatchGetSecretValueCommandInput) {
+    const hasIds = !!input.SecretIdList?.length;
+    if (hasIds === !!input.Filters?.length) {
+      throw awsError('InvalidParameterException', 'Specify either SecretIdList or Filters, but not both.');
+    }
+
+    const toValue = (secret: StoredSecret) => {
+      const version = this.requireVersion(secret, undefined, 'AWSCURRENT');
+      return { ARN: secret.arn, Name: secret.name, VersionId: version.versionId, ...valueOutput(version), VersionStages: version.stages.slice(), CreatedDate: new Date(version.createdDate) };
+    };
+
+    if (!hasIds) {
+      const matches = this.secrets.filter(secret => !secret.deletionDate && matchesFilters(secret, input.Filters || [], this.region));
+      const page = paginate(matches, input.MaxResults, input.NextToken, BATCH_PAGE_LIMIT);
+      const values = [];
+      for (const secret of page.items) {
+        if (secret.versions.some(version => version.stages.includes('AWSCURRENT'))) {
+          values.push(toValue(secret));
+        }
+      }
+      return { SecretValues: values, Errors: [], NextToken: page.nextToken };
+    }
+
+    const secretIds = input.SecretIdList as string[];
+    if (secretIds.length > BATCH_PAGE_LIMIT) {
+      throw awsError('InvalidParameterException', `SecretIdList can contain at most ${BATCH_PAGE_LIMIT} secret IDs.`);
+    }
+
+    const values = [];
+    const errors = [];
+    for (const secretId of secretIds) {
+      try {
+        values.push(toValue(this.requireActiveSecret(secretId)));
+      } catch (error) {
+        errors.push({ SecretId: secretId, ErrorCode: (error as Error).name, Message: (error as Error).message });
+      }
+    }
+    return { SecretValues: values, Errors: errors };
+  }
+
+  private putSecretValue(input: PutSecretValueCommandInput) {
+    const secret = this.requireActiveSecret(input.SecretId);
+    if (!hasValue(input)) {
+      throw awsError('InvalidParameterException', 'You must provide either SecretString or SecretBinary.');
+    }
+
+    const version = this.addVersion(secret, input, input.ClientRequestToken, input.VersionStages || ['AWSCURRENT']);
+    return { ARN: secret.arn, Name: secret.name, VersionId: version.versionId, VersionStages: version.stages.slice() };
+  }
+
+  private updateSecret(input: UpdateSecretCommandInput) {
+    const secret = this.requireActiveSecret(input.SecretId);
+
+    if (input.Description !== undefined) {
+      secret.description = input.Description;
+    }
+    if (input.KmsKeyId !== undefined) {
+      secret.kmsKeyId = input.KmsKeyId;
+    }
+    secret.lastChangedDate = Date.now();
+
+    const version = hasValue(input) ? this.addVersion(secret, input, input.ClientRequestToken, ['AWSCURRENT']) : undefined;
+    return { ARN: secret.arn, Name: secret.name, VersionId: version?.versionId };
+  }
+
+  private updateSecretVersionStage(input: UpdateSecretVersionStageCommandInput) {
+    const secret = this.requireActiveSecret(input.SecretId);
+    const stage = input.VersionStage as string;
+    const holder = secret.versions.find(version => version.stages.includes(stage));
+
+    if (input.RemoveFromVersionId && holder?.versionId !== input.RemoveFromVersionId) {
+      throw awsError('InvalidParameterException', `Staging label ${stage} is not attached to version ${input.RemoveFromVersionId}.`);
+    }
+
+    if (input.MoveToVersionId) {
+      const target = secret.versions.find(version => version.versionId === input.MoveToVersionId);
+      if (!target) {
+        throw awsError('ResourceNotFoundException', `Secrets Manager can't find the specified secret version: ${input.MoveToVersionId}`);
+      }
+      if (holder && holder !== target && !input.RemoveFromVersionId) {
+        throw awsError(
+          'InvalidParameterException',
+          `Staging label ${stage} is currently attached to version ${holder.versionId}, so you must explicitly reference that version in RemoveFromVersionId.`,
+        );
+      }
+      attachStage(secret, stage, target);
+    } else if (holder) {
+      if (stage === 'AWSCURRENT') {
+        throw awsError('InvalidParameterException', "You can't remove the AWSCURRENT staging label without moving it to another version.");
+      }
+      holder.stages = holder.stages.filter(label => label !== stage);
+    }
+
+    secret.lastChangedDate = Date.now();
+    return { ARN: secret.arn, Name: secret.name };
+  }
+
+  private describeSecret(secretId?: string) {
+    const secret = this.requireSecret(secretId);
+    return { ...this.toEntry(secret), VersionIdsToStages: versionIdsToStages(secret) };
+  }
+
+  private listSecrets(input: ListSecretsCommandInput) {
+    const matches = this.secrets.filter(secret => (input.IncludePlannedDeletion || !secret.deletionDate) && matchesFilters(secret, input.Filters || [], this.region));
+    const page = paginate(matches, input.MaxResults, input.NextToken, LIST_PAGE_LIMIT);
+
+    return {
+      SecretList: page.items.map(secret => ({ ...this.toEntry(secret), SecretVersionsToStages: versionIdsToStages(secret) })),
+      NextToken: page.nextToken,
+    };
+  }
+
+  private listSecretVersionIds(input: ListSecretVersionIdsCommandInput) {
+    const secret = this.requireSecret(input.SecretId);
+    const versions = secret.versions.filter(version => input.IncludeDeprecated || version.stages.length > 0);
+    const page = paginate(versions, input.MaxResults, input.NextToken, LIST_PAGE_LIMIT);
+
+    return {
+      ARN: secret.arn,
+      Name: secret.name,
+      Versions: page.items.map(version => ({
+        VersionId: version.versionId,
+        VersionStages: version.stages.slice(),
+        CreatedDate: new Date(version.createdDate),
+        LastAccessedDate: toDate(version.lastAccessedDate),
+        KmsKeyIds: [secret.kmsKeyId || 'DefaultEncryptionKey'],
+      })),
+      NextToken: page.nextToken,
+    };
+  }
+
+  private deleteSecret(input: DeleteSecretCommandInput) {
+    if (input.ForceDeleteWithoutRecovery && input.RecoveryWindowInDays !== undefined) {
+      throw awsError('InvalidParameterException', "You can't use ForceDeleteWithoutRecovery in conjunction with RecoveryWindowInDays.");
+    }
+
+    const secret = this.requireSecret(input.SecretId);
+    const now = Date.now();
+
+    if (input.ForceDeleteWithoutRecovery) {
+      this.secrets = this.secrets.filter(entry => entry !== secret);
+      return { ARN: secret.arn, Name: secret.name, DeletionDate: new Date(now) };
+    }
+    if (secret.deletionDate) {
+      throw awsError('InvalidRequestException', "You can't perform this operation on the secret because it was already scheduled for deletion.");
+    }
+
+    const recoveryDays = input.RecoveryWindowInDays ?? 30;
+    if (!Number.isInteger(recoveryDays) || recoveryDays < 7 || recoveryDays > 30) {
+      throw awsError('InvalidParameterException', 'RecoveryWindowInDays must be between 7 and 30 days.');
+    }
+
+    secret.deletionDate = now + recoveryDays * DAY;
+    return { ARN: secret.arn, Name: secret.name, DeletionDate: new Date(secret.deletionDate) };
+  }
+
+  private restoreSecret(secretId?: string) {
+    const secret = this.requireSecret(secretId);
+    delete secret.deletionDate;
+    secret.lastChangedDate = Date.now();
+    return { ARN: secret.arn, Name: secret.name };
+  }
+
+  private tagResource(input: TagResourceCommandInput) {
+    const secret = this.requireActiveSecret(input.SecretId);
+
+    for (const tag of input.Tags || []) {
+      const existing = secret.tags.find(entry => entry.Key === tag.Key);
+      if (existing) {
+        existing.Value = tag.Value ?? '';
+      } else {
+        secret.tags.push({ Key: tag.Key as string, Value: tag.Value ?? '' });
+      }
+    }
+    secret.lastChangedDate = Date.now();
+    return {};
+  }
+
+  private untagResource(input: UntagResourceCommandInput) {
+    const secret = this.requireActiveSecret(input.SecretId);
+    const keys = input.TagKeys || [];
+
+    secret.tags = secret.tags.filter(tag => !keys.includes(tag.Key));
+    secret.lastChangedDate = Date.now();
+    return {};
+  }
+
+  private rotateSecret(input: RotateSecretCommandInput) {
+    const secret = this.requireActiveSecret(input.SecretId);
+    const lambdaArn = input.RotationLambdaARN || secret.rotationLambdaArn;
+
+    if (!lambdaArn) {
+      throw awsError('InvalidRequestException', 'No Lambda rotation function ARN is associated with this secret.');
+    }
+
+    secret.rotationEnabled = true;
+    secret.rotationLambdaArn = lambdaArn;
+    secret.rotationRules = input.RotationRules || secret.rotationRules;
+    secret.lastChangedDate = Date.now();
+
+    if (input.RotateImmediately !== false) {
+      secret.lastRotatedDate = Date.now();
+    }
+    // Only the rotation Lambda would create the new version, so there is no VersionId to report
+    return { ARN: secret.arn, Name: secret.name };
+  }
+
+  private cancelRotateSecret(secretId?: string) {
+    const secret = this.requireActiveSecret(secretId);
+    const pending = secret.versions.find(version => version.stages.includes('AWSPENDING'));
+
+    if (pending) {
+      pending.stages = pending.stages.filter(stage => stage !== 'AWSPENDING');
+    }
+    secret.rotationEnabled = false;
+    secret.lastChangedDate = Date.now();
+    return { ARN: secret.arn, Name: secret.name, VersionId: pending?.versionId };
+  }
+
+  private getResourcePolicy(secretId?: string) {
+    const secret = this.requireActiveSecret(secretId);
+    return { ARN: secret.arn, Name: secret.name, ResourcePolicy: secret.resourcePolicy };
+  }
+
+  private putResourcePolicy(input: PutResourcePolicyCommandInput) {
+    const secret = this.requireActiveSecret(input.SecretId);
+    const { ValidationErrors } = validateResourcePolicy(input.ResourcePolicy);
+
+    if (input.BlockPublicPolicy && ValidationErrors.length > 0) {
+      throw awsError('PublicPolicyException', 'The BlockPublicPolicy parameter is set to true, and the resource policy did not prevent broad access to the secret.');
+    }
+    secret.resourcePolicy = input.ResourcePolicy;
+    secret.lastChangedDate = Date.now();
+    return { ARN: secret.arn, Name: secret.name };
+  }
+
+  private deleteResourcePolicy(secretId?: string) {
+    const secret = this.requireActiveSecret(secretId);
+    delete secret.resourcePolicy;
+    secret.lastChangedDate = Date.now();
+    return { ARN: secret.arn, Name: secret.name };
+  }
+
+  private addVersion(secret: StoredSecret, input: SecretValueInput, clientRequestToken: string | undefined, stages: string[]): StoredVersion {
+    const value = {
+      secretString: input.SecretString,
+      secretBinary: input.SecretBinary ? Buffer.from(input.SecretBinary).toString('base64') : undefined,
+    };
+    const existing = clientRequestToken ? secret.versions.find(version => version.versionId === clientRequestToken) : undefined;
+
+    if (existing) {
+      // Retried requests with the same token and value are idempotent
+      if (existing.secretString === value.secretString && existing.secretBinary === value.secretBinary) {
+        return existing;
+      }
+      throw awsError('ResourceExistsException', "You can't modify an existing version, you can only create new versions.");
+    }
+
+    const version: StoredVersion = { versionId: clientRequestToken || randomUUID(), ...value, stages: [], createdDate: Date.now() };
+    secret.versions.push(version);
+    stages.forEach(stage => attachStage(secret, stage, version));
+    secret.lastChangedDate = version.createdDate;
+    return version;
+  }
+
+  private findSecret(secretId?: string): StoredSecret | undefined {
+    if (!secretId) {
+      return undefined;
+    }
+    // A partial ARN omits the hyphen and six random characters AWS appends to the name
+    return this.secrets.find(secret => secret.name === secretId || secret.arn === secretId || (secretId.startsWith('arn:') && secret.arn.slice(0, -7) === secretId));
+  }
+
+  private requireSecret(secretId?: string): StoredSecret {
+    const secret = this.findSecret(secretId);
+    if (!secret) {
+      throw awsError('ResourceNotFoundException', "Secrets Manager can't find the specified secret.");
+    }
+    return secret;
+  }
+
+  private requireActiveSecret(secretId?: string): StoredSecret {
+    const secret = this.requireSecret(secretId);
+    if (secret.deletionDate) {
+      throw awsError('InvalidRequestException', "You can't perform this operation on the secret because it was marked for deletion.");
+    }
+    return secret;
+  }
+
+  private requireVersion(secret: StoredSecret, versionId?: string, versionStage?: string): StoredVersion {
+    const stage = versionStage || (versionId ? undefined : 'AWSCURRENT');
+    const version = secret.versions.find(
+      entry => (!versionId || entry.versionId === versionId) && (!stage || entry.stages.includes(stage)),
+    );
+
+    if (!version) {
+      const detail = versionId ? `VersionId: ${versionId}` : `staging label: ${stage}`;
+      throw awsError('ResourceNotFoundException', `Secrets Manager can't find the specified secret value for ${detail}`);
+    }
+    return version;
+  }
+
+  private toEntry(secret: StoredSecret) {
+    const afterDays = secret.rotationRules?.AutomaticallyAfterDays;
+    return {
+      ARN: secret.arn,
+      Name: secret.name,
+      Description: secret.description,
+      KmsKeyId: secret.kmsKeyId,
+      RotationEnabled: !!secret.rotationEnabled,
+      RotationLambdaARN: secret.rotationLambdaArn,
+      RotationRules: secret.rotationRules ? { ...secret.rotationRules } : undefined,
+      LastRotatedDate: toDate(secret.lastRotatedDate),
+      LastChangedDate: new Date(secret.lastChangedDate),
+      LastAccessedDate: toDate(secret.lastAccessedDate),
+      DeletedDate: toDate(secret.deletionDate),
+      NextRotationDate: secret.rotationEnabled && afterDays ? new Date((secret.lastRotatedDate ?? secret.createdDate) + afterDays * DAY) : undefined,
+      Tags: secret.tags.map(tag => ({ ...tag })),
+      CreatedDate: new Date(secret.createdDate),
+      PrimaryRegion: this.region,
+    };
+  }
+
+  private purgeExpired(): void {
+    const now = Date.now();
+    this.secrets = this.secrets.filter(secret => !secret.deletionDate || secret.deletionDate > now);
+  }
+}
+
+function attachStage(secret: StoredSecret, stage: string, target: StoredVersion): void {
+  const holder = secret.versions.find(version => version.stages.includes(stage));
+
+  if (holder && holder !== target) {
+    holder.stages = holder.stages.filter(label => label !== stage);
+    if (stage === 'AWSCURRENT') {
+      attachStage(secret, 'AWSPREVIOUS', holder);
+    }
+  }
+  if (!target.stages.includes(stage)) {
+    target.stages.push(stage);
+  }
+}
+
+function matchesFilters(secret: StoredSecret, filters: Filter[], region: string): boolean {
+  return filters.every(filter => {
+    const fields = filterFields(secret, filter.Key as string, region);
+    const values = filter.Values || [];
+    const positive = values.filter(value => !value.startsWith('!'));
+    const negated = values.filter(value => value.startsWith('!')).map(value => value.slice(1));
+    // Secrets Manager filters are case-insensitive prefix matches
+    const matches = (value: string) => fields.some(field => field.toLowerCase().startsWith(value.toLowerCase()));
+
+    return (positive.length === 0 || positive.some(matches)) && !negated.some(matches);
+  });
+}
+
+function filterFields(secret: StoredSecret, key: string, region: string): string[] {
+  switch (key) {
+    case 'name':
+      return [secret.name];
+    case 'description':
+      return secret.description ? [secret.description] : [];
+    case 'tag-key':
+      return secret.tags.map(tag => tag.Key);
+    case 'tag-value':
+      return secret.tags.map(tag => tag.Value);
+    case 'primary-region':
+      return [region];
+    case 'all':
+      return [secret.name, secret.description || '', ...secret.tags.map(tag => tag.Key), ...secret.tags.map(tag => tag.Value)];
+    default:
+      return [];
+  }
+}
+
+function paginate<T>(items: T[], maxResults: number | undefined, nextToken: string | undefined, limit: number): { items: T[]; nextToken?: string } {
+  const pageSize = maxResults ?? limit;
+  if (!Number.isInteger(pageSize) || pageSize < 1 || pageSize > limit) {
+    throw awsError('InvalidParameterException', `MaxResults must be between 1 and ${limit}.`);
+  }
+
+  const offset = nextToken ? Number(Buffer.from(nextToken, 'base64').toString('utf8')) : 0;
+  if (!Number.isInteger(offset) || offset < 0) {
+    throw awsError('InvalidNextTokenException', 'The NextToken value is invalid.');
+  }
+
+  const end = offset + pageSize;
+  return {
+    items: items.slice(offset, end),
+    nextToken: end < items.length ? Buffer.from(String(end)).toString('base64') : undefined,
+  };
+}
+
+function getRandomPassword(input: GetRandomPasswordCommandInput) {
+  try {
+    const password = generateLocalPassword({
+      length: input.PasswordLength,
+      excludeCharacters: input.ExcludeCharacters,
+      excludeNumbers: input.ExcludeNumbers,
+      excludePunctuation: input.ExcludePunctuation,
+      excludeUppercase: input.ExcludeUppercase,
+      excludeLowercase: input.ExcludeLowercase,
+      includeSpace: input.IncludeSpace,
+      requireEachIncludedType: input.RequireEachIncludedType,
+    });
+    return { RandomPassword: password };
+  } catch (error) {
+    throw awsError('InvalidParameterException', (error as Error).message);
+  }
+}
+
+function validateResourcePolicy(policy?: string) {
+  let statements: Array<{ Effect?: string; Principal?: unknown; Condition?: unknown }> | undefined;
+  try {
+    statements = JSON.parse(policy || '').Statement;
+  } catch {
+    statements = undefined;
+  }
+  if (!Array.isArray(statements)) {
+    throw awsError('MalformedPolicyDocumentException', 'This resource policy contains a syntax error.');
+  }
+
+  // Only the broad access check is emulated: an unconditional Allow for every principal
+  const broad = statements.some(
+    statement => statement.Effect === 'Allow' && !statement.Condition && (statement.Principal === '*' || toList((statement.Principal as { AWS?: unknown })?.AWS).includes('*')),
+  );
+  const ValidationErrors = broad ? [{ CheckName: 'BROAD_ACCESS', ErrorMessage: 'The resource policy grants access to every principal.' }] : [];
+  return { PolicyValidationPassed: !broad, ValidationErrors };
+}
+
+function toList(value: unknown): unknown[] {
+  return Array.isArray(value) ? value : [value];
+}
+
+function versionIdsToStages(secret: StoredSecret): Record<string, string[]> {
+  return secret.versions.reduce((acc, version) => {
+    if (version.stages.length > 0) {
+      acc[version.versionId] = version.stages.slice();
+    }
+    return acc;
+  }, {} as Record<string, string[]>);
+}
+
+function valueOutput(version: StoredVersion): SecretValueInput {
+  return version.secretBinary !== undefined
+    ? { SecretBinary: new Uint8Array(Buffer.from(version.secretBinary, 'base64')) }
+    : { SecretString: version.secretString };
+}
+
+function hasValue(input: SecretValueInput): boolean {
+  return input.SecretString !== undefined || input.SecretBinary !== undefined;
+}
+
+function awsError(name: string, message: string): Error {
+  const error = new Error(message);
+  error.name = name;
+  return Object.assign(error, { $metadata: { httpStatusCode: 400 } });
+}
+
+function randomSuffix(): string {
+  return randomBytes(6).toString('base64').replace(/[^A-Za-z0-9]/g, 'x').slice(0, 6);
+}
+
+function startOfDay(time: number): number {
+  return time - (time % DAY);
+}
+
+function toDate(time?: number): Date | undefined {
+  return time === undefined ? undefined : new Date(time);
+}
@@ -0,0 +1,82 @@
+import { LoggerHooksOptions, OperationEndEvent, OperationHooks, TracerLike } from "./types";
+
+// Values from @opentelemetry/api's SpanKind and SpanStatusCode
+const SPAN_KIND_CLIENT = 2;
+const SPAN_STATUS_OK = 1;
+const SPAN_STATUS_ERROR = 2;
+
+/**
+ * Logs one human-readable line per operation, e.g.
+ * `secretsmanager getSecret prod/db success 12ms cache=miss attempts=1`.
+ */
+export function consoleLogger(options: LoggerHooksOptions = {}): OperationHooks {
+  return loggerHooks(options, (event) =>
+    [
+      "secretsmanager",
+      event.operation,
+      event.secretId,
+      event.outcome,
+      `${event.durationMs}ms`,
+      event.cache && `cache=${event.cache}`,
+      `attempts=${event.attempts}`,
+      event.errorName && `error=${event.errorName}`,
+      event.requestId && `requestId=${event.requestId}`,
+    ]
+      .filter(Boolean)
+      .join(" ")
+  );
+}
+
+/**
+ * Logs one JSON object per operation, for log pipelines that parse structured output.
+ */
+export function jsonLogger(options: LoggerHooksOptions = {}): OperationHooks {
+  return loggerHooks(options, (event) =>
+    JSON.stringify({ level: event.outcome === "error" ? "error" : "info", message: "secretsmanager operation", ...event })
+  );
+}
+
+/**
+ * Records each operation as an OpenTelemetry client span. Pass a tracer from @opentelemetry/api,
+ * e.g. `openTelemetryHooks(trace.getTracer("secrets"))`.
+ */
+export function openTelemetryHooks(tracer: TracerLike): OperationHooks {
+  return {
+    onStart: (event) => {
+      const attributes: Record<string, string> = {
+        "rpc.system": "aws-api",
+        "rpc.service": "SecretsManager",
+        "aws.secretsmanager.operation": event.operation,
+      };
+      if (event.secretId) attributes["aws.secretsmanager.secret_id"] = event.secretId;
+      if (event.cache) attributes["aws.secretsmanager.cache"] = event.cache;
+
+      const span = tracer.startSpan(`SecretsManager.${event.operation}`, { kind: SPAN_KIND_CLIENT, startTime: event.startTime, attributes });
+
+      return (end) => {
+        span.setAttribute("aws.secretsmanager.attempts", end.attempts);
+        if (end.requestId) span.setAttribute("aws.request_id", end.requestId);
+        if (end.outcome === "error") {
+          span.setAttribute("error.type", end.errorName ?? "Error");
+          span.setStatus({ code: SPAN_STATUS_ERROR, message: end.errorName });
+        } else {
+          span.setStatus({ code: SPAN_STATUS_OK });
+        }
+        span.end(end.startTime + end.durationMs);
+      };
+    },
+  };
+}
+
+function loggerHooks(options: LoggerHooksOptions, format: (event: OperationEndEvent) => string): OperationHooks {
+  const logger = options.logger ?? console;
+  return {
+    onEnd: (event) => {
+      if (event.outcome === "error") {
+        logger.error(format(event));
+      } else if (!options.errorsOnly) {
+        logger.info(format(event));
+      }
+    },
+  };
+}
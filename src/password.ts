@@ -0,0 +1,59 @@
+import { randomInt } from "crypto";
+import { SecretsManagerError } from "./error";
+import { PasswordOptions } from "./types";
+
+const LOWERCASE = "abcdefghijklmnopqrstuvwxyz";
+const UPPERCASE = "ABCDEFGHIJKLMNOPQRSTUVWXYZ";
+const NUMBERS = "0123456789";
+const PUNCTUATION = "!\"#$%&'()*+,-./:;<=>?@[\\]^_`{|}~";
+
+/**
+ * Generates a random password locally with Node's crypto module.
+ * Accepts the same options as Secrets Manager's GetRandomPassword API and
+ * uses the same defaults (32 characters, every character type required).
+ */
+export function generateLocalPassword(options: PasswordOptions = {}): string {
+  const length = options.length ?? 32;
+  const exclude = new Set(options.excludeCharacters ?? "");
+  const strip = (chars: string) =>
+    Array.from(chars)
+      .filter((char) => !exclude.has(char))
+      .join("");
+
+  const classes = [
+    options.excludeLowercase ? "" : LOWERCASE,
+    options.excludeUppercase ? "" : UPPERCASE,
+    options.excludeNumbers ? "" : NUMBERS,
+    options.excludePunctuation ? "" : PUNCTUATION,
+    options.includeSpace ? " " : "",
+  ]
+    .map(strip)
+    .filter((chars) => chars.length > 0);
+
+  if (classes.length === 0) {
+    throw new SecretsManagerError("No characters available to generate a password");
+  }
+
+  const requireEach = options.requireEachIncludedType ?? true;
+  if (length < 1 || (requireEach && length < classes.length)) {
+    throw new SecretsManagerError(`Password length ${length} is too short for the requested character types`);
+  }
+
+  const pool = classes.join("");
+  const chars: string[] = requireEach ? classes.map(pick) : [];
+  while (chars.length < length) {
+    chars.push(pick(pool));
+  }
+
+  // Fisher-Yates shuffle so the required characters are not always first
+  for (let i = chars.length - 1; i > 0; i--) {
+    const j = randomInt(i + 1);
+    [chars[i], chars[j]] = [chars[j], chars[i]];
+  }
+
+  return chars.join("");
+}
+
+function pick(chars: string): string {
+  return chars[randomInt(chars.length)];
+}
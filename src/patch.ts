@@ -0,0 +1,165 @@
+import { InvalidSecretParameterError, SecretsManagerErrorDetails } from "./error";
+import { JsonPatchOperation } from "./types";
+
+type Container = Record<string, unknown> | unknown[];
+
+/**
+ * Applies a JSON Merge Patch (RFC 7386): objects are merged recursively and `null` removes a key.
+ */
+export function applyMergePatch(target: unknown, patch: unknown): unknown {
+  if (!isPlainObject(patch)) {
+    return patch;
+  }
+
+  const result: Record<string, unknown> = isPlainObject(target) ? { ...target } : {};
+  for (const [key, value] of Object.entries(patch)) {
+    if (value === null) {
+      delete result[key];
+    } else {
+      result[key] = applyMergePatch(result[key], value);
+    }
+  }
+  return result;
+}
+
+/**
+ * Applies JSON Patch (RFC 6902) operations to a copy of the document. Errors name the failing
+ * operation and path but never the values involved.
+ */
+export function applyJsonPatch(document: unknown, operations: JsonPatchOperation[], details: SecretsManagerErrorDetails = {}): unknown {
+  let result = clone(document);
+
+  operations.forEach((operation, index) => {
+    const fail = (reason: string): never => {
+      throw new InvalidSecretParameterError(`Patch operation ${index} (${operation.op} ${operation.path}) failed: ${reason}`, undefined, details);
+    };
+    const path = parsePointer(operation.path, fail);
+
+    switch (operation.op) {
+      case "add":
+        result = add(result, path, clone(operation.value), fail);
+        break;
+      case "remove":
+        result = remove(result, path, fail);
+        break;
+      case "replace":
+        result = add(remove(result, path, fail), path, clone(operation.value), fail);
+        break;
+      case "move": {
+        const from = parsePointer(operation.from, fail);
+        if (from.length < path.length && from.every((token, i) => token === path[i])) {
+          fail("cannot move a value into itself");
+        }
+        const value = get(result, from, fail);
+        result = add(remove(result, from, fail), path, value, fail);
+        break;
+      }
+      case "copy":
+        result = add(result, path, clone(get(result, parsePointer(operation.from, fail), fail)), fail);
+        break;
+      case "test":
+        if (!deepEqual(get(result, path, fail), operation.value)) {
+          fail("value does not match");
+        }
+        break;
+      default:
+        fail("unknown operation");
+    }
+  });
+
+  return result;
+}
+
+function parsePointer(pointer: string, fail: (reason: string) => never): string[] {
+  if (pointer === "") {
+    return [];
+  }
+  if (!pointer.startsWith("/")) {
+    fail("path must be empty or start with '/'");
+  }
+  return pointer
+    .slice(1)
+    .split("/")
+    .map((token) => token.replace(/~1/g, "/").replace(/~0/g, "~"));
+}
+
+function get(document: unknown, path: string[], fail: (reason: string) => never): unknown {
+  let current = document;
+  for (const token of path) {
+    const container = asContainer(current, fail);
+    const key = Array.isArray(container) ? arrayIndex(container, token, false, fail) : token;
+    if (!(key in container)) {
+      fail("path does not exist");
+    }
+    current = (container as Record<string, unknown>)[key];
+  }
+  return current;
+}
+
+function add(document: unknown, path: string[], value: unknown, fail: (reason: string) => never): unknown {
+  if (path.length === 0) {
+    return value;
+  }
+
+  const container = asContainer(get(document, path.slice(0, -1), fail), fail);
+  const token = path[path.length - 1];
+  if (Array.isArray(container)) {
+    container.splice(token === "-" ? container.length : arrayIndex(container, token, true, fail), 0, value);
+  } else {
+    container[token] = value;
+  }
+  return document;
+}
+
+function remove(document: unknown, path: string[], fail: (reason: string) => never): unknown {
+  if (path.length === 0) {
+    fail("cannot remove the whole document");
+  }
+
+  get(document, path, fail);
+  const container = asContainer(get(document, path.slice(0, -1), fail), fail);
+  const token = path[path.length - 1];
+  if (Array.isArray(container)) {
+    container.splice(arrayIndex(container, token, false, fail), 1);
+  } else {
+    delete container[token];
+  }
+  return document;
+}
+
+function asContainer(value: unknown, fail: (reason: string) => never): Container {
+  if (!Array.isArray(value) && !isPlainObject(value)) {
+    return fail("path does not exist");
+  }
+  return value;
+}
+
+function arrayIndex(array: unknown[], token: string, allowEnd: boolean, fail: (reason: string) => never): number {
+  const index = /^(0|[1-9][0-9]*)$/.test(token) ? Number(token) : NaN;
+  if (Number.isNaN(index) || index > array.length || (!allowEnd && index === array.length)) {
+    fail("array index is out of bounds");
+  }
+  return index;
+}
+
+function deepEqual(a: unknown, b: unknown): boolean {
+  if (a === b) {
+    return true;
+  }
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((item, i) => deepEqual(item, b[i]));
+  }
+  if (isPlainObject(a) && isPlainObject(b)) {
+    const keys = Object.keys(a);
+    return keys.length === Object.keys(b).length && keys.every((key) => key in b && deepEqual(a[key], b[key]));
+  }
+  return false;
+}
+
+function clone<T>(value: T): T {
+  return value === undefined ? value : JSON.parse(JSON.stringify(value));
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,193 @@
+import { inspect } from 'util';
+import { RedactorOptions } from './types';
+
+const REDACTED = '[REDACTED]';
+
+// Values live outside the instances so spreading, Object.entries and structured logging see nothing
+const revealed = new WeakMap<SecretValue<unknown>, unknown>();
+
+/**
+ * Wraps a secret so it cannot leak by accident: string conversion, JSON serialization and
+ * console.log/util.inspect all print [REDACTED]. Call reveal() where the plain value is needed.
+ * Writes accept SecretValue wherever they accept a value, including inside JSON objects.
+ */
+export class SecretValue<T = any> {
+  /**
+   * Wraps a value.
+   * @param {T} value - The secret value
+   */
+  constructor(value: T) {
+    revealed.set(this, value);
+  }
+
+  /**
+   * Returns the plain value.
+   * @returns {T} The secret value
+   */
+  reveal(): T {
+    return revealed.get(this) as T;
+  }
+
+  /**
+   * Derives another secret from this one without revealing it to the caller, e.g. one JSON field.
+   * @param {(value: T) => U} fn - Transformation applied to the plain value
+   * @returns {SecretValue<U>} The transformed value, still wrapped
+   */
+  map<U>(fn: (value: T) => U): SecretValue<U> {
+    return new SecretValue(fn(this.reveal()));
+  }
+
+  toString(): string {
+    return REDACTED;
+  }
+
+  toJSON(): string {
+    return REDACTED;
+  }
+
+  [inspect.custom](): string {
+    return `SecretValue ${REDACTED}`;
+  }
+}
+
+/**
+ * Scrubs known secret values out of strings, objects and errors before they are logged.
+ * Pass one as `redactor` in the AWSSecretsManager config to register every value it reads or writes.
+ */
+export class SecretRedactor {
+  private secrets = new Set<string>();
+  private sorted: string[] = [];
+  private replacement: string;
+  private minLength: number;
+
+  /**
+   * Creates a redactor with no known values.
+   * @param {RedactorOptions} options - Optional replacement text and minimum value length
+   */
+  constructor(options: RedactorOptions = {}) {
+    this.replacement = options.replacement ?? REDACTED;
+    this.minLength = options.minLength ?? 4;
+  }
+
+  /**
+   * Registers a secret. Strings holding JSON, objects and arrays register every string inside them;
+   * binary values register their base64 form, and their UTF-8 text when they hold valid text.
+   * @param {unknown} value - A string, Buffer, SecretValue, JSON object or array
+   * @returns {SecretRedactor} The redactor, for chaining
+   */
+  add(value: unknown): SecretRedactor {
+    const plain = revealAll(value);
+
+    if (typeof plain === 'string') {
+      this.addString(plain);
+      if (/^\s*[[{]/.test(plain)) {
+        try {
+          this.add(JSON.parse(plain));
+        } catch {
+          // Not JSON after all; the whole string is already registered
+        }
+      }
+    } else if (plain instanceof Uint8Array) {
+      const buffer = Buffer.from(plain.buffer, plain.byteOffset, plain.byteLength);
+      this.addString(buffer.toString('base64'));
+      const text = buffer.toString('utf8');
+      if (Buffer.from(text, 'utf8').equals(buffer)) {
+        this.add(text);
+      }
+    } else if (Array.isArray(plain)) {
+      plain.forEach(item => this.add(item));
+    } else if (isPlainObject(plain)) {
+      Object.keys(plain).forEach(key => this.add(plain[key]));
+    }
+    return this;
+  }
+
+  /**
+   * Returns a copy of the input with every known secret replaced. Objects, arrays and errors are copied
+   * deeply; SecretValue instances are left as they are since they already serialize redacted.
+   * @param {T} input - String, object, array or error to scrub
+   * @returns {T} The scrubbed copy
+   */
+  redact<T>(input: T): T {
+    return this.redactValue(input, new WeakMap()) as T;
+  }
+
+  private redactValue(input: unknown, seen: WeakMap<object, unknown>): unknown {
+    if (typeof input === 'string') {
+      return this.sorted.reduce((text, secret) => text.split(secret).join(this.replacement), input);
+    }
+    if (typeof input !== 'object' || input === null || input instanceof SecretValue) {
+      return input;
+    }
+    if (seen.has(input)) {
+      return seen.get(input);
+    }
+
+    if (Array.isArray(input)) {
+      const copy: unknown[] = [];
+      seen.set(input, copy);
+      input.forEach(item => copy.push(this.redactValue(item, seen)));
+      return copy;
+    }
+    if (input instanceof Error) {
+      const copy = Object.create(Object.getPrototypeOf(input));
+      seen.set(input, copy);
+      for (const key of Object.getOwnPropertyNames(input)) {
+        copy[key] = this.redactValue((input as unknown as Record<string, unknown>)[key], seen);
+      }
+      return copy;
+    }
+    if (isPlainObject(input)) {
+      const copy: Record<string, unknown> = {};
+      seen.set(input, copy);
+      Object.keys(input).forEach(key => (copy[key] = this.redactValue(input[key], seen)));
+      return copy;
+    }
+    return input;
+  }
+
+  private addString(secret: string): void {
+    if (secret.length < this.minLength || this.secrets.has(secret)) {
+      return;
+    }
+    this.secrets.add(secret);
+    // Longest first, so a secret containing another one is replaced whole
+    this.sorted = Array.from(this.secrets).sort((a, b) => b.length - a.length);
+  }
+}
+
+/**
+ * Replaces every SecretValue inside a value with its plain value, so it can be serialized for AWS.
+ */
+export function revealAll<T>(value: T): T {
+  if (value instanceof SecretValue) {
+    return revealAll(value.reveal());
+  }
+  if (!containsSecretValue(value)) {
+    return value;
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => revealAll(item)) as unknown as T;
+  }
+  const copy: Record<string, unknown> = {};
+  Object.keys(value as Record<string, unknown>).forEach(key => (copy[key] = revealAll((value as Record<string, unknown>)[key])));
+  return copy as T;
+}
+
+function containsSecretValue(value: unknown): boolean {
+  if (value instanceof SecretValue) {
+    return true;
+  }
+  if (Array.isArray(value)) {
+    return value.some(containsSecretValue);
+  }
+  return isPlainObject(value) && Object.keys(value).some(key => containsSecretValue(value[key]));
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  if (typeof value !== 'object' || value === null) {
+    return false;
+  }
+  const prototype = Object.getPrototypeOf(value);
+  return prototype === Object.prototype || prototype === null;
+}
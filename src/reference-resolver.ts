@@ -0,0 +1,227 @@
+import { readFile } from 'fs/promises';
+import { extname, basename } from 'path';
+import { AWSSecretsManager } from './aws-secret-manager';
+import { SecretReferenceError, SecretsManagerError } from './error';
+import { SecretReference, UnresolvedReference } from './types';
+import { parseSecretValue } from './utils';
+
+const REFERENCE_PATTERN = /\{\{resolve:secretsmanager:([^}]+)\}\}/g;
+
+export class SecretReferenceResolver {
+  private secretsManager: AWSSecretsManager;
+
+  /**
+   * Creates a resolver for CloudFormation-style `{{resolve:secretsmanager:...}}` references.
+   * @param {AWSSecretsManager} secretsManager - Client used to fetch the referenced secrets
+   */
+  constructor(secretsManager: AWSSecretsManager = new AWSSecretsManager()) {
+    this.secretsManager = secretsManager;
+  }
+
+  /**
+   * Replaces every reference found in the strings of a plain object, array or string; other values such
+   * as Dates and Buffers are kept as they are. Each secret is fetched once; secrets without a version
+   * qualifier are fetched in batches. Throws one SecretReferenceError listing every reference that
+   * could not be resolved.
+   * @param {T} input - Value to walk; it is not modified
+   * @returns {Promise<T>} A copy of the input with the references replaced
+   */
+  async resolve<T>(input: T): Promise<T> {
+    const references = new Map<string, SecretReference>();
+    collectStrings(input).forEach(text => {
+      for (const reference of parseReferences(text)) {
+        references.set(reference.reference, reference);
+      }
+    });
+
+    const { values, unresolved } = await this.fetch(Array.from(references.values()));
+
+    if (unresolved.length > 0) {
+      throw new SecretReferenceError(`Failed to resolve ${unresolved.length} secret reference(s): ${unresolved.map(entry => entry.reference).join(', ')}`, unresolved);
+    }
+
+    return mapStrings(input, text => text.replace(REFERENCE_PATTERN, match => values.get(match) as string));
+  }
+
+  /**
+   * Reads a JSON or .env file and resolves the references in it.
+   * @param {string} filePath - Path to a `.json` file or a `.env` file
+   * @returns {Promise<any>} The parsed JSON document, or the .env variables as an object
+   */
+  async resolveFile(filePath: string): Promise<any> {
+    const content = await readFile(filePath, 'utf8');
+
+    if (extname(filePath) === '.json') {
+      return this.resolve(JSON.parse(content));
+    }
+    if (basename(filePath).startsWith('.env') || extname(filePath) === '.env') {
+      return this.resolve(parseEnvFile(content));
+    }
+
+    throw new SecretsManagerError(`Unsupported file type for "${filePath}". Use a .json or .env file.`);
+  }
+
+  private async fetch(references: SecretReference[]): Promise<{ values: Map<string, string>; unresolved: UnresolvedReference[] }> {
+    const values = new Map<string, string>();
+    const unresolved: UnresolvedReference[] = [];
+    const secrets = new Map<string, unknown>();
+    const failures = new Map<string, string>();
+    const sourceKey = ({ secretId, versionStage = '', versionId = '' }: Pick<SecretReference, 'secretId' | 'versionStage' | 'versionId'>) =>
+      [secretId, versionStage, versionId].join('\u0000');
+
+    // Plain names can be fetched in batches; ARNs and versioned references need GetSecretValue
+    const batchable = new Set<string>();
+    const single = new Map<string, SecretReference>();
+    for (const reference of references) {
+      if (reference.invalid) {
+        continue;
+      }
+      if (!reference.versionStage && !reference.versionId && !reference.secretId.startsWith('arn:')) {
+        batchable.add(reference.secretId);
+      } else {
+        single.set(sourceKey(reference), reference);
+      }
+    }
+
+    if (batchable.size > 0) {
+      const result = await this.secretsManager.batchGetAllSecrets({ secretIds: Array.from(batchable), parse: false });
+      for (const secretId of batchable) {
+        if (secretId in result.secrets) {
+          secrets.set(sourceKey({ secretId }), result.secrets[secretId]);
+        } else {
+          const error = result.errors.find(entry => entry.secretId === secretId);
+          failures.set(sourceKey({ secretId }), error?.errorCode || 'secret not found');
+        }
+      }
+    }
+
+    await Promise.all(
+      Array.from(single.entries()).map(async ([key, reference]) => {
+        try {
+          secrets.set(key, await this.secretsManager.getSecret(reference.secretId, { parse: false, version: reference.versionId, versionStage: reference.versionStage }));
+        } catch (error) {
+          failures.set(key, error instanceof Error ? error.name : 'unknown error');
+        }
+      }),
+    );
+
+    for (const reference of references) {
+      if (reference.invalid) {
+        unresolved.push({ reference: reference.reference, reason: reference.invalid });
+        continue;
+      }
+      const key = sourceKey(reference);
+      if (failures.has(key)) {
+        unresolved.push({ reference: reference.reference, reason: failures.get(key) as string });
+        continue;
+      }
+
+      const secret = secrets.get(key);
+      if (typeof secret !== 'string') {
+        unresolved.push({ reference: reference.reference, reason: 'secret is not a string' });
+        continue;
+      }
+      if (!reference.jsonKey) {
+        values.set(reference.reference, secret);
+        continue;
+      }
+
+      const parsed = parseSecretValue<Record<string, unknown>>(secret);
+      if (typeof parsed !== 'object' || parsed === null || !(reference.jsonKey in parsed)) {
+        unresolved.push({ reference: reference.reference, reason: 'key not found' });
+        continue;
+      }
+      const value = parsed[reference.jsonKey];
+      values.set(reference.reference, typeof value === 'string' ? value : JSON.stringify(value));
+    }
+
+    return { values, unresolved };
+  }
+}
+
+/**
+ * Finds every `{{resolve:secretsmanager:secret-id:SecretString:json-key:version-stage:version-id}}`
+ * reference in a string. The secret ID may be a full ARN. References that can never resolve are
+ * returned with the reason in `invalid`.
+ */
+export function parseReferences(text: string): SecretReference[] {
+  const references: SecretReference[] = [];
+  const pattern = new RegExp(REFERENCE_PATTERN.source, 'g');
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(text))) {
+    const parts = match[1].split(':');
+    // An ARN has seven colon-separated parts: arn:aws:secretsmanager:region:account:secret:name
+    const secretId = parts[0] === 'arn' ? parts.splice(0, 7).join(':') : (parts.shift() as string);
+    const [valueType, jsonKey, versionStage, versionId] = parts;
+
+    const reference: SecretReference = {
+      reference: match[0],
+      secretId,
+      jsonKey: jsonKey || undefined,
+      versionStage: versionStage || undefined,
+      versionId: versionId || undefined,
+    };
+    if (!secretId) {
+      reference.invalid = 'missing secret ID';
+    } else if (valueType && valueType !== 'SecretString') {
+      reference.invalid = `unsupported value type "${valueType}"`;
+    }
+    references.push(reference);
+  }
+
+  return references;
+}
+
+function collectStrings(value: unknown, strings: string[] = []): string[] {
+  if (typeof value === 'string') {
+    strings.push(value);
+  } else if (Array.isArray(value)) {
+    value.forEach(item => collectStrings(item, strings));
+  } else if (isPlainObject(value)) {
+    Object.keys(value).forEach(key => collectStrings(value[key], strings));
+  }
+  return strings;
+}
+
+function mapStrings<T>(value: T, fn: (text: string) => string): T {
+  if (typeof value === 'string') {
+    return fn(value) as unknown as T;
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => mapStrings(item, fn)) as unknown as T;
+  }
+  if (isPlainObject(value)) {
+    return Object.keys(value).reduce((acc, key) => {
+      acc[key] = mapStrings(value[key], fn);
+      return acc;
+    }, {} as Record<string, unknown>) as T;
+  }
+  // Dates, Buffers, class instances and the like are returned as they are
+  return value;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  if (typeof value !== 'object' || value === null) {
+    return false;
+  }
+  const prototype = Object.getPrototypeOf(value);
+  return prototype === Object.prototype || prototype === null;
+}
+
+function parseEnvFile(content: string): Record<string, string> {
+  const variables: Record<string, string> = {};
+
+  for (const line of content.split(/\r?\n/)) {
+    const trimmed = line.trim();
+    if (!trimmed || trimmed.startsWith('#')) {
+      continue;
+    }
+    const match = trimmed.match(/^(?:export\s+)?([\w.-]+)\s*=\s*(.*)$/);
+    if (match) {
+      variables[match[1]] = match[2].replace(/^(['"])(.*)\1$/, '$2');
+    }
+  }
+
+  return variables;
+}
@@ -0,0 +1,72 @@
+import { isRetryableError } from "./error";
+import { RetryOptions } from "./types";
+
+/**
+ * Runs an operation with exponential backoff and an optional per-attempt timeout.
+ * The operation receives an AbortSignal that fires when its attempt times out.
+ */
+export async function withRetry<T>(
+  operation: string,
+  fn: (abortSignal?: AbortSignal) => Promise<T>,
+  options: RetryOptions = {}
+): Promise<T> {
+  const maxAttempts = Math.max(1, options.maxAttempts ?? 3);
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await runAttempt(fn, options.timeout);
+    } catch (error) {
+      if (attempt >= maxAttempts || !isRetryable(error, options.retryableErrors)) {
+        throw error;
+      }
+
+      const delay = backoffDelay(attempt, options);
+      options.onRetry?.({ operation, attempt, delay, error });
+      await sleep(delay);
+    }
+  }
+}
+
+function isRetryable(error: unknown, retryableErrors?: string[]): boolean {
+  if (!retryableErrors) {
+    return isRetryableError(error);
+  }
+  return error instanceof Error && retryableErrors.includes(error.name);
+}
+
+export function backoffDelay(attempt: number, options: RetryOptions = {}): number {
+  const baseDelay = options.baseDelay ?? 100;
+  const maxDelay = options.maxDelay ?? 5000;
+  const delay = Math.min(maxDelay, baseDelay * 2 ** (attempt - 1));
+  return options.jitter === false ? delay : Math.floor(Math.random() * delay);
+}
+
+export function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+async function runAttempt<T>(
+  fn: (abortSignal?: AbortSignal) => Promise<T>,
+  timeout?: number
+): Promise<T> {
+  if (!timeout) {
+    return fn();
+  }
+
+  const controller = new AbortController();
+  let timer: NodeJS.Timeout | undefined;
+  const timedOut = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      controller.abort();
+      const error = new Error(`Operation timed out after ${timeout}ms`);
+      error.name = "TimeoutError";
+      reject(error);
+    }, timeout);
+  });
+
+  try {
+    return await Promise.race([fn(controller.signal), timedOut]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
@@ -0,0 +1,135 @@
+import { AWSSecretsManager } from './aws-secret-manager';
+import { SecretNotFoundError, SecretsManagerError } from './error';
+import { generateLocalPassword } from './password';
+import { RotationContext, RotationEvent, RotationHandlerOptions } from './types';
+
+const AWSCURRENT = 'AWSCURRENT';
+const AWSPENDING = 'AWSPENDING';
+
+export class SecretRotationHandler<T = any> {
+  private secretsManager: AWSSecretsManager;
+  private options: RotationHandlerOptions<T>;
+
+  /**
+   * Creates a rotation handler that runs the createSecret/setSecret/testSecret/finishSecret
+   * protocol Secrets Manager uses to invoke rotation Lambdas.
+   * @param {RotationHandlerOptions<T>} options - Callbacks for generating, applying and testing a new value
+   * @param {AWSSecretsManager} secretsManager - Client used to read and stage secret versions
+   */
+  constructor(options: RotationHandlerOptions<T>, secretsManager: AWSSecretsManager = new AWSSecretsManager()) {
+    this.options = options;
+    this.secretsManager = secretsManager;
+  }
+
+  /**
+   * Returns a function that can be exported directly as the Lambda handler.
+   * @returns {(event: RotationEvent) => Promise<void>} Lambda handler
+   */
+  toLambdaHandler(): (event: RotationEvent) => Promise<void> {
+    return event => this.handle(event);
+  }
+
+  /**
+   * Runs a single rotation step. Every step can safely be retried.
+   * @param {RotationEvent} event - Event received from Secrets Manager
+   */
+  async handle(event: RotationEvent): Promise<void> {
+    const { SecretId: secretId, ClientRequestToken: token, Step: step } = event;
+
+    const rotation = await this.secretsManager.getRotationConfig(secretId);
+    if (!rotation.enabled) {
+      throw new SecretsManagerError(`Secret "${secretId}" is not enabled for rotation.`);
+    }
+
+    const stages = await this.secretsManager.getVersionStages(secretId);
+    const tokenStages = stages[token];
+    if (!tokenStages) {
+      throw new SecretsManagerError(`Version "${token}" of secret "${secretId}" has no stage for rotation.`);
+    }
+    if (tokenStages.includes(AWSCURRENT)) {
+      // A retried step after finishSecret already completed
+      return;
+    }
+    if (!tokenStages.includes(AWSPENDING)) {
+      throw new SecretsManagerError(`Version "${token}" of secret "${secretId}" is not set as AWSPENDING for rotation.`);
+    }
+
+    const context: RotationContext = {
+      secretId,
+      token,
+      generatePassword: () => generateLocalPassword(this.options.password),
+    };
+
+    switch (step) {
+      case 'createSecret':
+        return this.createSecret(context, event.RotationToken);
+      case 'setSecret':
+        return this.options.apply(await this.getPending(context), context);
+      case 'testSecret':
+        return this.options.test(await this.getPending(context), context);
+      case 'finishSecret':
+        return this.finishSecret(context, stages);
+      default:
+        throw new SecretsManagerError(`Invalid rotation step "${step}".`);
+    }
+  }
+
+  private async createSecret(context: RotationContext, rotationToken?: string): Promise<void> {
+    const current = await this.secretsManager.getSecret<T>(context.secretId, {
+      parse: true,
+      versionStage: AWSCURRENT,
+      bypassCache: true,
+    });
+
+    if (await this.pendingExists(context)) {
+      return;
+    }
+
+    const generate = this.options.generate || ((value: T, ctx: RotationContext) => this.defaultGenerate(value, ctx));
+    const pending = await generate(current, context);
+
+    await this.secretsManager.putSecretValue(context.secretId, pending, {
+      clientRequestToken: context.token,
+      versionStages: [AWSPENDING],
+      rotationToken,
+    });
+  }
+
+  private async finishSecret(context: RotationContext, stages: Record<string, string[]>): Promise<void> {
+    const currentVersion = Object.keys(stages).find(versionId => stages[versionId].includes(AWSCURRENT));
+
+    await this.secretsManager.updateSecretVersionStage(context.secretId, AWSCURRENT, {
+      moveToVersionId: context.token,
+      removeFromVersionId: currentVersion,
+    });
+  }
+
+  private async pendingExists(context: RotationContext): Promise<boolean> {
+    try {
+      await this.getPending(context);
+      return true;
+    } catch (error) {
+      if (error instanceof SecretNotFoundError) {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  private getPending(context: RotationContext): Promise<T> {
+    return this.secretsManager.getSecret<T>(context.secretId, {
+      parse: true,
+      version: context.token,
+      versionStage: AWSPENDING,
+      bypassCache: true,
+    });
+  }
+
+  private defaultGenerate(current: T, context: RotationContext): T {
+    const password = context.generatePassword();
+    if (current && typeof current === 'object' && !Buffer.isBuffer(current)) {
+      return { ...current, [this.options.passwordKey || 'password']: password };
+    }
+    return password as unknown as T;
+  }
+}
@@ -0,0 +1,135 @@
+import { EventEmitter } from 'events';
+import type { AWSSecretsManager } from './aws-secret-manager';
+import { backoffDelay } from './retry';
+import { SecretChangeEvent, SecretWatchErrorEvent, WatchSecretOptions } from './types';
+
+const DEFAULT_INTERVAL = 60 * 1000;
+
+/**
+ * Polls a secret's AWSCURRENT version and calls back with the new value when it changes, e.g. after
+ * a rotation. Created by AWSSecretsManager.watchSecret.
+ *
+ * Events:
+ * - `ready` (versionId): the first check succeeded
+ * - `change` (SecretChangeEvent): the callback handled a new version
+ * - `error` (SecretWatchErrorEvent): a check or the callback failed; the watcher backs off and keeps going
+ * - `stop`: the watcher was unsubscribed
+ */
+export class SecretWatcher<T = any> extends EventEmitter {
+  private secretsManager: AWSSecretsManager;
+  private secretName: string;
+  private callback: (change: SecretChangeEvent<T>) => void | Promise<void>;
+  private options: WatchSecretOptions;
+  private interval: number;
+  private timer?: NodeJS.Timeout;
+  private started = false;
+  private stopped = false;
+  private currentVersionId?: string;
+  private failures = 0;
+
+  /**
+   * Starts watching a secret; the first check runs immediately.
+   * @param {AWSSecretsManager} secretsManager - Client used to check and read the secret
+   * @param {string} secretName - Name or ARN of the secret
+   * @param {(change: SecretChangeEvent<T>) => void | Promise<void>} callback - Called with each new version; a failure is retried on the next check
+   * @param {WatchSecretOptions} options - Optional interval, backoff limit, parsing, AbortSignal and keep-alive setting
+   */
+  constructor(
+    secretsManager: AWSSecretsManager,
+    secretName: string,
+    callback: (change: SecretChangeEvent<T>) => void | Promise<void>,
+    options: WatchSecretOptions = {},
+  ) {
+    super();
+    this.secretsManager = secretsManager;
+    this.secretName = secretName;
+    this.callback = callback;
+    this.options = options;
+    this.interval = options.interval ?? DEFAULT_INTERVAL;
+
+    if (options.signal?.aborted) {
+      this.stopped = true;
+      return;
+    }
+    options.signal?.addEventListener('abort', () => this.unsubscribe(), { once: true });
+    this.schedule(0);
+  }
+
+  /**
+   * The AWSCURRENT version the callback last handled, undefined before the first check.
+   */
+  get versionId(): string | undefined {
+    return this.currentVersionId;
+  }
+
+  /**
+   * Stops watching. A check that is already running finishes without calling back.
+   */
+  unsubscribe(): void {
+    if (this.stopped) {
+      return;
+    }
+    this.stopped = true;
+    clearTimeout(this.timer);
+    this.emit('stop');
+  }
+
+  private schedule(delay: number): void {
+    if (this.stopped) {
+      return;
+    }
+    this.timer = setTimeout(() => void this.check(), delay);
+    if (!this.options.keepAlive) {
+      this.timer.unref();
+    }
+  }
+
+  private async check(): Promise<void> {
+    try {
+      const stages = await this.secretsManager.getVersionStages(this.secretName);
+      const versionId = Object.keys(stages).find(id => stages[id].includes('AWSCURRENT'));
+
+      if (this.stopped) {
+        return;
+      }
+      if (!this.started) {
+        this.started = true;
+        this.currentVersionId = versionId;
+        this.emit('ready', versionId);
+      } else if (versionId && versionId !== this.currentVersionId) {
+        await this.handleChange(versionId);
+      }
+
+      this.failures = 0;
+      this.schedule(this.interval);
+    } catch (error) {
+      this.failures++;
+      const nextCheckIn = backoffDelay(this.failures + 1, {
+        baseDelay: this.interval,
+        maxDelay: this.options.maxInterval ?? this.interval * 10,
+        jitter: false,
+      });
+
+      // An EventEmitter throws on 'error' events nobody listens to
+      if (!this.stopped && this.listenerCount('error') > 0) {
+        const event: SecretWatchErrorEvent = { secretId: this.secretName, error, failures: this.failures, nextCheckIn };
+        this.emit('error', event);
+      }
+      this.schedule(nextCheckIn);
+    }
+  }
+
+  private async handleChange(versionId: string): Promise<void> {
+    const value = await this.secretsManager.getSecret<T>(this.secretName, { parse: this.options.parse ?? true, version: versionId, bypassCache: true });
+    if (this.stopped) {
+      return;
+    }
+    // Later getSecret calls should see the new version too
+    this.secretsManager.clearCache(this.secretName);
+
+    const change: SecretChangeEvent<T> = { secretId: this.secretName, value, versionId, previousVersionId: this.currentVersionId };
+    await this.callback(change);
+    this.currentVersionId = versionId;
+    this.emit('change', change);
+  }
+}
@@ -1,3 +1,5 @@
+import type { SecretRedactor } from './redaction';
+
 export interface AWSSecretsManagerConfig {
   region?: string;
   accessKeyId?: string;
@@ -6,27 +8,203 @@ export interface AWSSecretsManagerConfig {
     accessKeyId: string;
     secretAccessKey: string;
   };
+  cache?: SecretCacheOptions;
+  retry?: RetryOptions;
+  /** Sends every command to this backend instead of AWS (region and credentials are then ignored) */
+  backend?: SecretsManagerBackend;
+  /**
+   * Replica regions getSecret falls back to, in order, when the primary region fails with a
+   * throttling, server or network error
+   */
+  failoverRegions?: string[];
+  /** Hooks that observe every operation, e.g. consoleLogger(), jsonLogger() or openTelemetryHooks(tracer) */
+  hooks?: OperationHooks | OperationHooks[];
+  /** Registers every secret value read or written, so it can be scrubbed from logs */
+  redactor?: SecretRedactor;
+  /** Share one request between identical getSecret calls that are in flight at the same time (default: true) */
+  coalesceReads?: boolean;
+  /** Maximum operations sent to AWS at once; the rest wait in a queue (default: unlimited) */
+  maxConcurrency?: number;
+  /** Group getSecret calls for AWSCURRENT made in the same tick into BatchGetSecretValue requests (default: false) */
+  batchReads?: boolean;
+}
+
+/** Handles Secrets Manager SDK commands in place of SecretsManagerClient */
+export interface SecretsManagerBackend {
+  send(command: { input: object }, options?: { abortSignal?: AbortSignal }): Promise<any>;
+}
+
+export interface LocalBackendOptions {
+  /** Region used in generated ARNs (default: 'us-east-1') */
+  region?: string;
+  /** Account ID used in generated ARNs (default: '000000000000') */
+  accountId?: string;
+}
+
+export interface FileBackendOptions extends LocalBackendOptions {
+  /** JSON file the encrypted secrets are stored in; created on the first write */
+  path: string;
+  /** Passphrase the AES-256-GCM file key is derived from */
+  passphrase: string;
+}
+
+export interface RetryOptions {
+  /** Total attempts including the first one (default: 3) */
+  maxAttempts?: number;
+  /** Delay in milliseconds before the first retry; doubled on each further retry (default: 100) */
+  baseDelay?: number;
+  /** Upper bound in milliseconds for a single backoff delay (default: 5000) */
+  maxDelay?: number;
+  /** Randomize each delay between 0 and the computed backoff (default: true) */
+  jitter?: boolean;
+  /** Milliseconds before a single attempt is aborted and counted as a TimeoutError */
+  timeout?: number;
+  /** AWS error names that are retried (default: throttling, timeouts, 5xx responses and dropped connections) */
+  retryableErrors?: string[];
+  /** Called before each retry */
+  onRetry?: (event: RetryEvent) => void;
+}
+
+export interface RetryEvent {
+  operation: string;
+  /** Attempt that just failed, starting at 1 */
+  attempt: number;
+  /** Milliseconds until the next attempt */
+  delay: number;
+  error: unknown;
+}
+
+export interface SecretCacheOptions {
+  /** Time in milliseconds an entry is considered fresh (default: 5 minutes) */
+  ttl?: number;
+  /** Maximum number of cached entries before the least recently used is evicted (default: 1000) */
+  maxEntries?: number;
+  /** Time in milliseconds after expiry during which a stale value is served while it is refreshed in the background (default: 0) */
+  staleWhileRevalidate?: number;
+}
+
+export interface CacheStats {
+  hits: number;
+  misses: number;
+  size: number;
+}
+
+/**
+ * How a read was served: 'hit' and 'stale' came from the cache, 'miss' and 'bypass' went to AWS,
+ * and 'revalidate' is the background refresh of a stale entry
+ */
+export type CacheStatus = 'hit' | 'stale' | 'miss' | 'bypass' | 'revalidate';
+
+/** Describes an operation without any secret value */
+export interface OperationStartEvent {
+  operation: string;
+  secretId?: string;
+  /** Set for reads when a cache is configured */
+  cache?: CacheStatus;
+  /** Epoch milliseconds */
+  startTime: number;
 }
 
-export interface SecretOptions {
+export interface OperationEndEvent extends OperationStartEvent {
+  durationMs: number;
+  outcome: 'success' | 'error';
+  /** AWS requests made, including retries; 0 when served from the cache */
+  attempts: number;
+  /** Error class, e.g. 'SecretNotFoundError' */
+  errorName?: string;
+  retryable?: boolean;
+  statusCode?: number;
+  requestId?: string;
+}
+
+/**
+ * Observes operations. Hooks must not throw; errors they raise are ignored so they never break an operation.
+ */
+export interface OperationHooks {
+  /** Called before the operation; may return a callback that is called with the end event */
+  onStart?: (event: OperationStartEvent) => void | ((event: OperationEndEvent) => void);
+  onEnd?: (event: OperationEndEvent) => void;
+}
+
+export interface RedactorOptions {
+  /** Text that replaces each secret (default: '[REDACTED]') */
+  replacement?: string;
+  /** Shorter values are not registered, so common words and numbers stay readable (default: 4) */
+  minLength?: number;
+}
+
+export interface LoggerHooksOptions {
+  /** Receives each line (default: console) */
+  logger?: { info(message: string): void; error(message: string): void };
+  /** Log only failed operations (default: false) */
+  errorsOnly?: boolean;
+}
+
+/** Minimal OpenTelemetry span interface, so @opentelemetry/api is not a dependency */
+export interface SpanLike {
+  setAttribute(key: string, value: string | number | boolean): unknown;
+  setStatus(status: { code: number; message?: string }): unknown;
+  end(endTime?: number): unknown;
+}
+
+/** Minimal OpenTelemetry tracer interface, e.g. trace.getTracer('secrets') */
+export interface TracerLike {
+  startSpan(name: string, options?: { kind?: number; startTime?: number; attributes?: Record<string, string | number | boolean> }): SpanLike;
+}
+
+export interface SecretOptions<T = any> {
   description?: string;
+  /** Only used by createSecret */
   tags?: Array<{ Key: string; Value: string }>;
+  /** Validates the value before it is written */
+  validate?: SecretValidator<T>;
+  /** KMS key (ID, ARN or alias) used to encrypt the value (default: aws/secretsmanager) */
+  kmsKeyId?: string;
+  /** Idempotency token that also becomes the new version ID; retries with the same token and value do not create a new version */
+  clientRequestToken?: string;
+  /** Only used by createSecret: overwrite a secret with the same name in the replica regions */
+  forceOverwriteReplicaSecret?: boolean;
+  /** Only used by createSecret: generate the value, or one field of the JSON template passed as the value */
+  generate?: GenerateSecretValueOptions;
+}
+
+export interface SecretMetadataUpdate {
+  description?: string;
+  kmsKeyId?: string;
 }
 
-export interface GetSecretOptions {
+export interface GetSecretOptions<T = any> {
   parse?: boolean;
+  /** With `parse`, reject values that are not valid JSON instead of returning the raw string */
+  strict?: boolean;
+  /** Validates the (parsed) value before it is returned */
+  validate?: SecretValidator<T>;
   version?: string;
+  /** Staging label to read, e.g. 'AWSCURRENT', 'AWSPENDING' or 'AWSPREVIOUS' */
+  versionStage?: string;
+  bypassCache?: boolean;
+  /** Return the value wrapped in a SecretValue that prints as [REDACTED] */
+  redact?: boolean;
 }
 
-export interface BatchGetSecretOptions {
+export type SecretPayload =
+  | { type: 'string'; value: string; versionId?: string }
+  | { type: 'binary'; value: Buffer; versionId?: string };
+
+export interface BatchGetSecretOptions<T = any> {
   secretIds: string[];
   filters?: { Key: string; Values: string[] }[];
   maxResults?: number;
   nextToken?: string;
   parse?: boolean;
+  /** With `parse`, reject values that are not valid JSON instead of returning the raw string */
+  strict?: boolean;
+  /** Validates every (parsed) string secret before it is returned */
+  validate?: SecretValidator<T>;
 }
 
 export interface BatchGetSecretResult {
+  /** Secret values keyed by name; binary secrets are returned as Buffers */
   secrets: Record<string, any>;
   errors: {
     secretId?: string;
@@ -36,16 +214,467 @@ export interface BatchGetSecretResult {
   nextToken?: string;
 }
 
+export interface PaginationOptions {
+  /** Stop after this many items have been returned */
+  maxItems?: number;
+  /** Stops fetching further pages once aborted */
+  signal?: AbortSignal;
+}
+
 export interface DeleteSecretOptions {
   forceDelete?: boolean;
   recoveryDays?: number;
+  /** Report what would be deleted without deleting anything */
+  dryRun?: boolean;
+}
+
+export interface DeleteSecretResult {
+  arn?: string;
+  name?: string;
+  /** Date the secret will be (or, for a dry run, would be) permanently deleted */
+  deletionDate?: Date;
+  dryRun: boolean;
+  /** Dry runs only: the secret is already scheduled for deletion on `deletionDate`, and only a forced delete would succeed */
+  alreadyScheduled?: boolean;
 }
 
 export interface ListAllSecretOptions {
   maxResults?: number;
   nextToken?: string;
+  /** Return full metadata objects in `secrets` alongside the names */
+  includeMetadata?: boolean;
+  /** Include secrets that are scheduled for deletion */
+  includePlannedDeletion?: boolean;
   filters?: Array<{
     Key: 'name' | 'description' | 'tag-key' | 'tag-value';
     Values: string[];
   }>;
 }
+
+/**
+ * Tag conditions that must all hold: a string requires that exact value, an array any of its values,
+ * and `true` only requires the key to be present.
+ */
+export type TagQuery = Record<string, string | string[] | true>;
+
+export interface TagSyncResult {
+  /** Keys that were added or given a new value */
+  tagged: string[];
+  /** Keys that were removed */
+  removed: string[];
+}
+
+export interface ListSecretsResult {
+  secretNames: string[];
+  /** Present when `includeMetadata` is set */
+  secrets?: SecretMetadata[];
+  nextToken?: string;
+}
+
+export interface ReplicaStatus {
+  region?: string;
+  kmsKeyId?: string;
+  status?: 'InSync' | 'Failed' | 'InProgress';
+  statusMessage?: string;
+  lastAccessedDate?: Date;
+}
+
+export interface ReplicaRegion {
+  region: string;
+  /** KMS key in the replica region (default: aws/secretsmanager) */
+  kmsKeyId?: string;
+}
+
+export interface ReplicateSecretOptions {
+  /** Overwrite a secret with the same name in the replica regions */
+  forceOverwriteReplicaSecret?: boolean;
+}
+
+export interface ReplicationResult {
+  arn?: string;
+  replicationStatus: ReplicaStatus[];
+}
+
+export interface ReplicationStatusReport {
+  arn?: string;
+  name?: string;
+  primaryRegion?: string;
+  replicas: ReplicaStatus[];
+  /** True when every replica is InSync (also true when there are no replicas) */
+  inSync: boolean;
+  /** Replicas whose status is Failed */
+  failed: ReplicaStatus[];
+}
+
+/** Principal element of a policy statement: everyone, or AWS accounts/roles, services and federated users */
+export type PolicyPrincipal = '*' | { AWS?: string | string[]; Service?: string | string[]; Federated?: string | string[] };
+
+/** Condition operators mapped to condition keys and values, e.g. { StringEquals: { 'aws:PrincipalOrgID': 'o-123' } } */
+export type PolicyConditions = Record<string, Record<string, string | string[] | boolean | number>>;
+
+export interface PolicyStatement {
+  Sid?: string;
+  Effect: 'Allow' | 'Deny';
+  Principal?: PolicyPrincipal;
+  NotPrincipal?: PolicyPrincipal;
+  Action?: string | string[];
+  NotAction?: string | string[];
+  Resource?: string | string[];
+  Condition?: PolicyConditions;
+}
+
+export interface PolicyDocument {
+  Version: string;
+  Id?: string;
+  Statement: PolicyStatement[];
+}
+
+export interface PolicyStatementOptions {
+  sid?: string;
+  /** '*' for everyone, or AWS principals (account IDs, role and user ARNs) and service principals */
+  principals: '*' | { aws?: string | string[]; services?: string | string[]; federated?: string | string[] };
+  /** Actions such as 'GetSecretValue' (prefixed with 'secretsmanager:') or 'secretsmanager:DescribeSecret' */
+  actions: string[];
+  /** Resources the statement applies to (default: '*', i.e. the secret the policy is attached to) */
+  resources?: string[];
+  conditions?: PolicyConditions;
+}
+
+export interface ResourcePolicy {
+  arn?: string;
+  name?: string;
+  /** Parsed policy, undefined when the secret has no resource policy */
+  policy?: PolicyDocument;
+}
+
+export interface PutResourcePolicyOptions {
+  /** Reject policies that grant broad access, e.g. a wildcard principal (default: true) */
+  blockPublicPolicy?: boolean;
+}
+
+export interface ValidateResourcePolicyOptions {
+  /** Secret the policy would be attached to; its ARN is used for resource checks */
+  secretName?: string;
+}
+
+export interface PolicyValidationFinding {
+  /** Name of the failed check, e.g. 'BROAD_ACCESS' or 'SYNTAX_CHECKING' */
+  checkName?: string;
+  message?: string;
+}
+
+export interface PolicyValidationResult {
+  valid: boolean;
+  findings: PolicyValidationFinding[];
+}
+
+export interface SecretMetadata {
+  arn?: string;
+  name?: string;
+  description?: string;
+  kmsKeyId?: string;
+  rotationEnabled: boolean;
+  rotationLambdaArn?: string;
+  automaticallyAfterDays?: number;
+  scheduleExpression?: string;
+  createdDate?: Date;
+  lastChangedDate?: Date;
+  lastAccessedDate?: Date;
+  lastRotatedDate?: Date;
+  nextRotationDate?: Date;
+  /** Set when the secret is scheduled for deletion */
+  deletedDate?: Date;
+  tags: Record<string, string>;
+  versionIdsToStages: Record<string, string[]>;
+  /** Service that created and manages the secret, if any */
+  owningService?: string;
+  primaryRegion?: string;
+  /** Only returned by describeSecret */
+  replicationStatus?: ReplicaStatus[];
+}
+
+export type RotationSchedule =
+  | { automaticallyAfterDays: number; scheduleExpression?: never }
+  | { scheduleExpression: string; automaticallyAfterDays?: never };
+
+export interface RotateSecretOptions {
+  clientRequestToken?: string;
+}
+
+export interface ConfigureRotationOptions {
+  lambdaArn?: string;
+  schedule?: RotationSchedule;
+  /** Length of the rotation window, e.g. '3h' */
+  duration?: string;
+  /** Start a rotation right away instead of waiting for the next window (default: false) */
+  rotateImmediately?: boolean;
+}
+
+export interface RotationResult {
+  arn?: string;
+  name?: string;
+  versionId?: string;
+}
+
+export interface RotationConfig {
+  enabled: boolean;
+  lambdaArn?: string;
+  automaticallyAfterDays?: number;
+  scheduleExpression?: string;
+  duration?: string;
+  lastRotatedDate?: Date;
+  nextRotationDate?: Date;
+}
+
+export interface GetSecretVersionsOptions {
+  /** Include versions without a staging label (default: true) */
+  includeDeprecated?: boolean;
+}
+
+export interface ListSecretVersionsOptions extends GetSecretVersionsOptions {
+  maxResults?: number;
+  nextToken?: string;
+}
+
+export interface SecretVersion {
+  versionId: string;
+  versionStages: string[];
+  createdDate?: Date;
+  lastAccessedDate?: Date;
+  kmsKeyIds?: string[];
+  /** True when the version is staged as AWSCURRENT */
+  isLatest: boolean;
+}
+
+export interface SecretVersionsResult {
+  versions: SecretVersion[];
+  nextToken?: string;
+}
+
+export interface VersionStageMoveResult {
+  versionStage: string;
+  /** Version that now holds the staging label */
+  versionId: string;
+  /** Version the staging label was removed from, if any */
+  removedFromVersionId?: string;
+}
+
+export interface PutSecretValueOptions {
+  /** Idempotency token that also becomes the new version ID */
+  clientRequestToken?: string;
+  /** Staging labels to attach to the new version (default: ['AWSCURRENT']) */
+  versionStages?: string[];
+  rotationToken?: string;
+}
+
+export interface PutSecretValueResult {
+  arn?: string;
+  name?: string;
+  versionId?: string;
+  versionStages?: string[];
+}
+
+export interface UpdateVersionStageOptions {
+  /** Version that should receive the staging label */
+  moveToVersionId?: string;
+  /** Version the staging label is currently attached to */
+  removeFromVersionId?: string;
+}
+
+/** JSON Merge Patch (RFC 7396) for T: listed keys are replaced, `null` removes a key */
+export type MergePatch<T> = { [K in keyof T]?: T[K] | null };
+
+export type JsonPatchOperation =
+  | { op: 'add' | 'replace' | 'test'; path: string; value: unknown }
+  | { op: 'remove'; path: string }
+  | { op: 'move' | 'copy'; from: string; path: string };
+
+export interface PatchSecretOptions<T = any> {
+  /** Fail with a SecretConflictError unless AWSCURRENT is this version; disables retries */
+  expectedVersionId?: string;
+  /** Attempts when another writer changes the secret at the same time (default: 3) */
+  maxAttempts?: number;
+  /** Validates the patched value before it is written */
+  validate?: SecretValidator<T>;
+}
+
+export interface PatchSecretResult<T = any> {
+  /** The value that was written */
+  value: T;
+  /** Version that now holds AWSCURRENT */
+  versionId?: string;
+  /** Version the patch was applied to; it now holds AWSPREVIOUS */
+  previousVersionId?: string;
+  attempts: number;
+}
+
+export interface WatchSecretOptions {
+  /** Milliseconds between checks of the AWSCURRENT version (default: 60000) */
+  interval?: number;
+  /** Upper bound of the delay after consecutive failures, which doubles from `interval` (default: 10 × interval) */
+  maxInterval?: number;
+  /** Parse JSON values passed to the callback (default: true) */
+  parse?: boolean;
+  /** Stops the watcher when aborted */
+  signal?: AbortSignal;
+  /** Keep the process alive while watching (default: false) */
+  keepAlive?: boolean;
+}
+
+export interface SecretChangeEvent<T = any> {
+  secretId: string;
+  /** Value of the new AWSCURRENT version */
+  value: T;
+  versionId: string;
+  previousVersionId?: string;
+}
+
+export interface SecretWatchErrorEvent {
+  secretId: string;
+  error: unknown;
+  /** Consecutive failed checks, including this one */
+  failures: number;
+  /** Milliseconds until the next check */
+  nextCheckIn: number;
+}
+
+export interface PasswordOptions {
+  /** Password length (default: 32) */
+  length?: number;
+  excludeCharacters?: string;
+  excludeNumbers?: boolean;
+  excludePunctuation?: boolean;
+  excludeUppercase?: boolean;
+  excludeLowercase?: boolean;
+  includeSpace?: boolean;
+  /** Require at least one character of every included type (default: true) */
+  requireEachIncludedType?: boolean;
+}
+
+export interface GeneratePasswordOptions extends PasswordOptions {
+  /**
+   * Where the password is generated: 'aws' calls GetRandomPassword, 'local' uses Node's crypto module,
+   * and 'auto' calls GetRandomPassword and generates locally if the call fails (default: 'auto')
+   */
+  source?: 'auto' | 'aws' | 'local';
+}
+
+export interface GenerateSecretValueOptions extends GeneratePasswordOptions {
+  /** Key in the JSON template that receives the password; without it the whole value is the password */
+  field?: string;
+}
+
+export type RotationStep = 'createSecret' | 'setSecret' | 'testSecret' | 'finishSecret';
+
+/**
+ * Event sent by Secrets Manager to a rotation Lambda.
+ */
+export interface RotationEvent {
+  SecretId: string;
+  ClientRequestToken: string;
+  Step: RotationStep;
+  RotationToken?: string;
+}
+
+export interface RotationContext {
+  secretId: string;
+  token: string;
+  /** Generates a password using the handler's password options */
+  generatePassword: () => string;
+}
+
+export interface RotationHandlerOptions<T = any> {
+  /** Builds the new secret value from the current one. Defaults to replacing `passwordKey` with a generated password */
+  generate?: (current: T, context: RotationContext) => T | Promise<T>;
+  /** Applies the pending value to the target service (setSecret step) */
+  apply: (pending: T, context: RotationContext) => void | Promise<void>;
+  /** Verifies the pending value works against the target service (testSecret step) */
+  test: (pending: T, context: RotationContext) => void | Promise<void>;
+  /** Options for generated passwords */
+  password?: PasswordOptions;
+  /** JSON key replaced by the default generator (default: 'password') */
+  passwordKey?: string;
+}
+
+export interface ValidationIssue {
+  /** Dotted path of the offending field, empty for the value itself */
+  path: string;
+  /** Describes the problem without including the value */
+  message: string;
+}
+
+/**
+ * Subset of JSON Schema supported by the built-in validator.
+ */
+export interface JsonSchema {
+  type?: JsonSchemaType | JsonSchemaType[];
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JsonSchema;
+  items?: JsonSchema;
+  enum?: unknown[];
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  minimum?: number;
+  maximum?: number;
+}
+
+export type JsonSchemaType = 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean' | 'null';
+
+/**
+ * Adapter for Zod-like schema libraries. Zod schemas satisfy it as they are.
+ */
+export interface SchemaAdapter<T> {
+  safeParse(value: unknown):
+    | { success: true; data: T }
+    | { success: false; error: { issues: Array<{ path: Array<string | number>; code?: string }> } };
+}
+
+export type SecretValidator<T> = ((value: unknown) => value is T) | SchemaAdapter<T> | JsonSchema;
+
+export interface SecretEnvMapping {
+  /** Name of the secret to read */
+  secretId: string;
+  /** JSON key to read; omit to use the whole value, or '*' to map every key of a JSON secret */
+  key?: string;
+  /** Variable name; defaults to the key (or secret name) in UPPER_SNAKE_CASE */
+  env?: string;
+  /** Fail when the secret or key is missing (default: true) */
+  required?: boolean;
+}
+
+export type EnvOverwritePolicy = 'overwrite' | 'skip' | 'error';
+
+export interface SecretEnvLoaderOptions {
+  /** Prepended to every variable name */
+  prefix?: string;
+  /** What to do when a variable is already set in the environment (default: 'skip') */
+  overwrite?: EnvOverwritePolicy;
+}
+
+export interface MissingSecretEntry {
+  secretId: string;
+  key?: string;
+  /** AWS error code such as 'AccessDeniedException', or 'secret not found', 'key not found', 'secret is not a JSON object' */
+  reason: string;
+}
+
+/**
+ * A parsed `{{resolve:secretsmanager:...}}` dynamic reference.
+ */
+export interface SecretReference {
+  /** The placeholder as written, including the braces */
+  reference: string;
+  secretId: string;
+  jsonKey?: string;
+  versionStage?: string;
+  versionId?: string;
+  /** Why the reference can never resolve, e.g. an empty secret ID or an unsupported value type */
+  invalid?: string;
+}
+
+export interface UnresolvedReference {
+  reference: string;
+  reason: string;
+}
@@ -1,4 +1,13 @@
-import { Filter, FilterNameStringType } from "@aws-sdk/client-secrets-manager";
+import {
+  DescribeSecretResponse,
+  Filter,
+  FilterNameStringType,
+  ReplicationStatusType,
+  SecretListEntry,
+  Tag,
+} from "@aws-sdk/client-secrets-manager";
+import { revealAll } from "./redaction";
+import { ReplicaStatus, SecretMetadata } from "./types";
 
 export function convertFilters(
   filters?: { Key: string; Values: string[] }[]
@@ -17,3 +26,77 @@ export function parseSecretValue<T>(value: string): T {
     return value as unknown as T;
   }
 }
+
+export function toSecretValueInput<T>(
+  value: T
+): { SecretString: string } | { SecretBinary: Uint8Array } {
+  // SecretValue serializes as [REDACTED], so unwrap it (also inside JSON objects) before sending
+  const plain = revealAll(value) as unknown;
+  if (plain instanceof Uint8Array) {
+    return { SecretBinary: plain };
+  }
+  return {
+    SecretString: typeof plain === "string" ? plain : JSON.stringify(plain),
+  };
+}
+
+export function chunk<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+  return chunks;
+}
+
+export function tagsToRecord(tags?: Tag[]): Record<string, string> {
+  return (tags || []).reduce((acc, tag) => {
+    if (tag.Key) {
+      acc[tag.Key] = tag.Value ?? "";
+    }
+    return acc;
+  }, {} as Record<string, string>);
+}
+
+export function toSecretMetadata(
+  secret: DescribeSecretResponse | SecretListEntry
+): SecretMetadata {
+  const versionIdsToStages =
+    "VersionIdsToStages" in secret
+      ? secret.VersionIdsToStages
+      : (secret as SecretListEntry).SecretVersionsToStages;
+
+  return {
+    arn: secret.ARN,
+    name: secret.Name,
+    description: secret.Description,
+    kmsKeyId: secret.KmsKeyId,
+    rotationEnabled: secret.RotationEnabled || false,
+    rotationLambdaArn: secret.RotationLambdaARN,
+    automaticallyAfterDays: secret.RotationRules?.AutomaticallyAfterDays,
+    scheduleExpression: secret.RotationRules?.ScheduleExpression,
+    createdDate: secret.CreatedDate,
+    lastChangedDate: secret.LastChangedDate,
+    lastAccessedDate: secret.LastAccessedDate,
+    lastRotatedDate: secret.LastRotatedDate,
+    nextRotationDate: secret.NextRotationDate,
+    deletedDate: secret.DeletedDate,
+    tags: tagsToRecord(secret.Tags),
+    versionIdsToStages: versionIdsToStages || {},
+    owningService: secret.OwningService,
+    primaryRegion: secret.PrimaryRegion,
+    replicationStatus:
+      "ReplicationStatus" in secret && secret.ReplicationStatus
+        ? secret.ReplicationStatus.map(toReplicaStatus)
+        : undefined,
+  };
+}
+
+export function toReplicaStatus(replica: ReplicationStatusType): ReplicaStatus {
+  return {
+    region: replica.Region,
+    kmsKeyId: replica.KmsKeyId,
+    status: replica.Status,
+    statusMessage: replica.StatusMessage,
+    lastAccessedDate: replica.LastAccessedDate,
+  };
+}
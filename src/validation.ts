@@ -0,0 +1,154 @@
+import { SecretValidationError } from "./error";
+import { JsonSchema, JsonSchemaType, SchemaAdapter, SecretValidator, ValidationIssue } from "./types";
+
+interface ValidationContext {
+  operation: string;
+  secretId?: string;
+}
+
+/**
+ * Validates a secret value and returns it (as transformed by a schema adapter, if any).
+ * Throws a SecretValidationError naming the offending fields; values are never included.
+ */
+export function assertValidSecret<T>(value: unknown, validator: SecretValidator<T>, context: ValidationContext): T {
+  const { issues, data } = runValidator(value, validator);
+
+  if (issues.length > 0) {
+    const fields = issues.map((issue) => issue.path || "(value)");
+    const subject = context.secretId ? `Secret "${context.secretId}"` : "Secret";
+    throw new SecretValidationError(`${subject} failed validation: ${Array.from(new Set(fields)).join(", ")}`, issues, {
+      secretId: context.secretId,
+      operation: context.operation,
+    });
+  }
+
+  return data as T;
+}
+
+/**
+ * Parses a JSON secret, rejecting anything that is not valid JSON. The parser's own
+ * message is dropped because it can quote parts of the value.
+ */
+export function parseStrict<T>(value: string, context: ValidationContext): T {
+  try {
+    return JSON.parse(value);
+  } catch {
+    const subject = context.secretId ? `Secret "${context.secretId}"` : "Secret";
+    throw new SecretValidationError(`${subject} is not valid JSON.`, [{ path: "", message: "must be valid JSON" }], {
+      secretId: context.secretId,
+      operation: context.operation,
+    });
+  }
+}
+
+export function validateJsonSchema(value: unknown, schema: JsonSchema, path = ""): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+
+  if (schema.type) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some((type) => matchesType(value, type))) {
+      return [{ path, message: `must be of type ${types.join(" or ")}` }];
+    }
+  }
+
+  if (schema.enum && !schema.enum.some((allowed) => allowed === value)) {
+    issues.push({ path, message: "must be one of the allowed values" });
+  }
+
+  if (typeof value === "string") {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      issues.push({ path, message: `must be at least ${schema.minLength} characters` });
+    }
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+      issues.push({ path, message: `must be at most ${schema.maxLength} characters` });
+    }
+    if (schema.pattern !== undefined && !new RegExp(schema.pattern).test(value)) {
+      issues.push({ path, message: "must match the required pattern" });
+    }
+  }
+
+  if (typeof value === "number") {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      issues.push({ path, message: `must be >= ${schema.minimum}` });
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      issues.push({ path, message: `must be <= ${schema.maximum}` });
+    }
+  }
+
+  if (Array.isArray(value) && schema.items) {
+    value.forEach((item, index) => issues.push(...validateJsonSchema(item, schema.items as JsonSchema, joinPath(path, index))));
+  }
+
+  if (isPlainObject(value)) {
+    for (const key of schema.required || []) {
+      if (!(key in value)) {
+        issues.push({ path: joinPath(path, key), message: "is required" });
+      }
+    }
+    for (const [key, child] of Object.entries(value)) {
+      const propertySchema = schema.properties?.[key];
+      if (propertySchema) {
+        issues.push(...validateJsonSchema(child, propertySchema, joinPath(path, key)));
+      } else if (schema.additionalProperties === false) {
+        issues.push({ path: joinPath(path, key), message: "is not allowed" });
+      } else if (typeof schema.additionalProperties === "object") {
+        issues.push(...validateJsonSchema(child, schema.additionalProperties, joinPath(path, key)));
+      }
+    }
+  }
+
+  return issues;
+}
+
+function runValidator<T>(value: unknown, validator: SecretValidator<T>): { issues: ValidationIssue[]; data: unknown } {
+  if (typeof validator === "function") {
+    return validator(value)
+      ? { issues: [], data: value }
+      : { issues: [{ path: "", message: "failed type guard" }], data: value };
+  }
+
+  if (isSchemaAdapter(validator)) {
+    const result = validator.safeParse(value);
+    if (result.success) {
+      return { issues: [], data: result.data };
+    }
+    // Library messages can quote the rejected value, so only the path and code are kept
+    return {
+      issues: result.error.issues.map((issue) => ({
+        path: issue.path.join("."),
+        message: issue.code ? `is invalid (${issue.code})` : "is invalid",
+      })),
+      data: value,
+    };
+  }
+
+  return { issues: validateJsonSchema(value, validator), data: value };
+}
+
+function isSchemaAdapter<T>(validator: SecretValidator<T>): validator is SchemaAdapter<T> {
+  return typeof (validator as SchemaAdapter<T>).safeParse === "function";
+}
+
+function matchesType(value: unknown, type: JsonSchemaType): boolean {
+  switch (type) {
+    case "object":
+      return isPlainObject(value);
+    case "array":
+      return Array.isArray(value);
+    case "integer":
+      return Number.isInteger(value);
+    case "null":
+      return value === null;
+    default:
+      return typeof value === type;
+  }
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value) && !Buffer.isBuffer(value);
+}
+
+function joinPath(path: string, key: string | number): string {
+  return path ? `${path}.${key}` : String(key);
+}
@@ -1,8 +1,12 @@
 import path from "path";
+import { BannerPlugin } from "webpack";
 
 export default {
   mode: "production", // Or 'development' based on your needs
-  entry: "./src/index.ts",
+  entry: {
+    index: "./src/index.ts",
+    cli: "./src/cli.ts",
+  },
   module: {
     rules: [
       {
@@ -16,9 +20,10 @@ export default {
     extensions: [".ts", ".js"],
   },
   output: {
-    filename: "index.js", // Changed from bundle.js to index.js
+    filename: "[name].js", // index.js for the library, cli.js for the bin entry
     path: path.resolve(__dirname, "dist"),
     libraryTarget: "commonjs2",
   },
   target: "node", // Important for Node.js usage
+  plugins: [new BannerPlugin({ banner: "#!/usr/bin/env node", raw: true, include: "cli" })],
 };